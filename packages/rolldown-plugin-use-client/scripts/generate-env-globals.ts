@@ -0,0 +1,196 @@
+/**
+ * @module
+ * Regenerates `src/env/inline-client-env-globals.ts` from the TypeScript lib
+ * definitions. Run with `deno task generate:env` after bumping `typescript`.
+ */
+
+import ts from "typescript";
+import path from "node:path";
+import { readFileSync, writeFileSync } from "node:fs";
+
+const libDir = path.dirname(ts.getDefaultLibFilePath({}));
+const outFile = new URL(
+  "../src/env/inline-client-env-globals.ts",
+  import.meta.url,
+);
+
+function readLib(name: string): ts.SourceFile {
+  const fileName = path.join(libDir, `lib.${name}.d.ts`);
+  return ts.createSourceFile(
+    fileName,
+    readFileSync(fileName, "utf8"),
+    ts.ScriptTarget.Latest,
+  );
+}
+
+/** `lib` followed by every lib it references, transitively. */
+function readLibClosure(name: string): ts.SourceFile[] {
+  const files: ts.SourceFile[] = [];
+  const seen = new Set<string>();
+  const visit = (lib: string) => {
+    if (seen.has(lib)) return;
+    seen.add(lib);
+    const file = readLib(lib);
+    files.push(file);
+    for (const reference of file.libReferenceDirectives) {
+      visit(reference.fileName.toLowerCase());
+    }
+  };
+  visit(name);
+  return files;
+}
+
+/** Namespaces like `Intl` are values; type-only ones are not. */
+function hasValueMembers(node: ts.ModuleDeclaration): boolean {
+  const body = node.body;
+  if (!body) return false;
+  if (ts.isModuleDeclaration(body)) return hasValueMembers(body);
+  if (!ts.isModuleBlock(body)) return false;
+  return body.statements.some((statement) =>
+    ts.isVariableStatement(statement) ||
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    (ts.isModuleDeclaration(statement) && hasValueMembers(statement))
+  );
+}
+
+function collectStatementValues(
+  statements: readonly ts.Statement[],
+  names: Set<string>,
+) {
+  for (const statement of statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          names.add(declaration.name.text);
+        }
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      names.add(statement.name.text);
+    } else if (ts.isModuleDeclaration(statement)) {
+      if (statement.flags & ts.NodeFlags.GlobalAugmentation) {
+        if (statement.body && ts.isModuleBlock(statement.body)) {
+          collectStatementValues(statement.body.statements, names);
+        }
+      } else if (
+        ts.isIdentifier(statement.name) && hasValueMembers(statement)
+      ) {
+        names.add(statement.name.text);
+      }
+    }
+  }
+}
+
+/** Names of the declared variables, functions, classes and value namespaces. */
+function collectGlobalValues(files: ts.SourceFile[]): Set<string> {
+  const names = new Set<string>();
+  for (const file of files) {
+    collectStatementValues(file.statements, names);
+  }
+  return names;
+}
+
+function findInterfaces(file: ts.SourceFile, name: string) {
+  return file.statements.filter((statement) =>
+    ts.isInterfaceDeclaration(statement) && statement.name.text === name
+  ) as ts.InterfaceDeclaration[];
+}
+
+/** Members an interface declares itself and through its heritage clauses. */
+function collectInterfaceMembers(
+  file: ts.SourceFile,
+  name: string,
+  stopAt: Set<string>,
+  names = new Set<string>(),
+): Set<string> {
+  for (const declaration of findInterfaces(file, name)) {
+    for (const member of declaration.members) {
+      if (member.name && ts.isIdentifier(member.name)) {
+        names.add(member.name.text);
+      }
+    }
+    for (const clause of declaration.heritageClauses ?? []) {
+      for (const type of clause.types) {
+        const parent = type.expression.getText(file);
+        if (!stopAt.has(parent)) {
+          collectInterfaceMembers(file, parent, stopAt, names);
+        }
+      }
+    }
+  }
+  return names;
+}
+
+function difference(names: Set<string>, remove: Set<string>): string[] {
+  return [...names].filter((name) => !remove.has(name)).sort();
+}
+
+// `globalThis` and `undefined` are built into the checker rather than
+// declared in a lib file.
+const es = collectGlobalValues(readLibClosure("esnext"));
+es.add("globalThis");
+es.add("undefined");
+
+const browser = collectGlobalValues(readLibClosure("dom"));
+
+const webworker = readLib("webworker");
+const worker = collectGlobalValues([
+  webworker,
+  readLib("webworker.importscripts"),
+]);
+
+// lib.webworker.d.ts flattens `DedicatedWorkerGlobalScope` into its globals;
+// a service worker swaps those members for `ServiceWorkerGlobalScope`'s.
+const workerScope = new Set(["WorkerGlobalScope"]);
+const serviceWorker = new Set(
+  difference(
+    worker,
+    collectInterfaceMembers(
+      webworker,
+      "DedicatedWorkerGlobalScope",
+      workerScope,
+    ),
+  ),
+);
+for (
+  const name of collectInterfaceMembers(
+    webworker,
+    "ServiceWorkerGlobalScope",
+    workerScope,
+  )
+) {
+  serviceWorker.add(name);
+}
+
+const formatList = (names: string[]) =>
+  `[\n${names.map((name) => `  ${JSON.stringify(name)},\n`).join("")}]`;
+
+const source =
+  `// Generated by scripts/generate-env-globals.ts from TypeScript ${ts.version}.
+// Do not edit by hand.
+
+/** Globals every environment gets from the ECMAScript lib. */
+export const ES_GLOBALS: readonly string[] = ${formatList([...es].sort())};
+
+/** Globals declared by lib.dom.d.ts, excluding \`ES_GLOBALS\`. */
+export const BROWSER_GLOBALS: readonly string[] = ${
+    formatList(difference(browser, es))
+  };
+
+/** Globals declared by lib.webworker.d.ts, excluding \`ES_GLOBALS\`. */
+export const WORKER_GLOBALS: readonly string[] = ${
+    formatList(difference(worker, es))
+  };
+
+/** Dedicated worker globals swapped for \`ServiceWorkerGlobalScope\` members. */
+export const SERVICE_WORKER_GLOBALS: readonly string[] = ${
+    formatList(difference(serviceWorker, es))
+  };
+`;
+
+writeFileSync(outFile, source);
@@ -0,0 +1,1447 @@
+// Generated by scripts/generate-env-globals.ts from TypeScript 5.9.3.
+// Do not edit by hand.
+
+/** Globals every environment gets from the ECMAScript lib. */
+export const ES_GLOBALS: readonly string[] = [
+  "AggregateError",
+  "Array",
+  "ArrayBuffer",
+  "AsyncDisposableStack",
+  "Atomics",
+  "BigInt",
+  "BigInt64Array",
+  "BigUint64Array",
+  "Boolean",
+  "DataView",
+  "Date",
+  "DisposableStack",
+  "Error",
+  "EvalError",
+  "FinalizationRegistry",
+  "Float16Array",
+  "Float32Array",
+  "Float64Array",
+  "Function",
+  "Infinity",
+  "Int16Array",
+  "Int32Array",
+  "Int8Array",
+  "Intl",
+  "Iterator",
+  "JSON",
+  "Map",
+  "Math",
+  "NaN",
+  "Number",
+  "Object",
+  "Promise",
+  "Proxy",
+  "RangeError",
+  "ReferenceError",
+  "Reflect",
+  "RegExp",
+  "Set",
+  "SharedArrayBuffer",
+  "String",
+  "SuppressedError",
+  "Symbol",
+  "SyntaxError",
+  "TypeError",
+  "URIError",
+  "Uint16Array",
+  "Uint32Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "WeakMap",
+  "WeakRef",
+  "WeakSet",
+  "decodeURI",
+  "decodeURIComponent",
+  "encodeURI",
+  "encodeURIComponent",
+  "escape",
+  "eval",
+  "globalThis",
+  "isFinite",
+  "isNaN",
+  "parseFloat",
+  "parseInt",
+  "undefined",
+  "unescape",
+];
+
+/** Globals declared by lib.dom.d.ts, excluding `ES_GLOBALS`. */
+export const BROWSER_GLOBALS: readonly string[] = [
+  "AbortController",
+  "AbortSignal",
+  "AbstractRange",
+  "AnalyserNode",
+  "Animation",
+  "AnimationEffect",
+  "AnimationEvent",
+  "AnimationPlaybackEvent",
+  "AnimationTimeline",
+  "Attr",
+  "Audio",
+  "AudioBuffer",
+  "AudioBufferSourceNode",
+  "AudioContext",
+  "AudioData",
+  "AudioDecoder",
+  "AudioDestinationNode",
+  "AudioEncoder",
+  "AudioListener",
+  "AudioNode",
+  "AudioParam",
+  "AudioParamMap",
+  "AudioProcessingEvent",
+  "AudioScheduledSourceNode",
+  "AudioWorklet",
+  "AudioWorkletNode",
+  "AuthenticatorAssertionResponse",
+  "AuthenticatorAttestationResponse",
+  "AuthenticatorResponse",
+  "BarProp",
+  "BaseAudioContext",
+  "BeforeUnloadEvent",
+  "BiquadFilterNode",
+  "Blob",
+  "BlobEvent",
+  "BroadcastChannel",
+  "ByteLengthQueuingStrategy",
+  "CDATASection",
+  "CSPViolationReportBody",
+  "CSS",
+  "CSSAnimation",
+  "CSSConditionRule",
+  "CSSContainerRule",
+  "CSSCounterStyleRule",
+  "CSSFontFaceRule",
+  "CSSFontFeatureValuesRule",
+  "CSSFontPaletteValuesRule",
+  "CSSGroupingRule",
+  "CSSImageValue",
+  "CSSImportRule",
+  "CSSKeyframeRule",
+  "CSSKeyframesRule",
+  "CSSKeywordValue",
+  "CSSLayerBlockRule",
+  "CSSLayerStatementRule",
+  "CSSMathClamp",
+  "CSSMathInvert",
+  "CSSMathMax",
+  "CSSMathMin",
+  "CSSMathNegate",
+  "CSSMathProduct",
+  "CSSMathSum",
+  "CSSMathValue",
+  "CSSMatrixComponent",
+  "CSSMediaRule",
+  "CSSNamespaceRule",
+  "CSSNestedDeclarations",
+  "CSSNumericArray",
+  "CSSNumericValue",
+  "CSSPageRule",
+  "CSSPerspective",
+  "CSSPropertyRule",
+  "CSSRotate",
+  "CSSRule",
+  "CSSRuleList",
+  "CSSScale",
+  "CSSScopeRule",
+  "CSSSkew",
+  "CSSSkewX",
+  "CSSSkewY",
+  "CSSStartingStyleRule",
+  "CSSStyleDeclaration",
+  "CSSStyleRule",
+  "CSSStyleSheet",
+  "CSSStyleValue",
+  "CSSSupportsRule",
+  "CSSTransformComponent",
+  "CSSTransformValue",
+  "CSSTransition",
+  "CSSTranslate",
+  "CSSUnitValue",
+  "CSSUnparsedValue",
+  "CSSVariableReferenceValue",
+  "CSSViewTransitionRule",
+  "Cache",
+  "CacheStorage",
+  "CanvasCaptureMediaStreamTrack",
+  "CanvasGradient",
+  "CanvasPattern",
+  "CanvasRenderingContext2D",
+  "CaretPosition",
+  "ChannelMergerNode",
+  "ChannelSplitterNode",
+  "CharacterData",
+  "Clipboard",
+  "ClipboardEvent",
+  "ClipboardItem",
+  "CloseEvent",
+  "Comment",
+  "CompositionEvent",
+  "CompressionStream",
+  "ConstantSourceNode",
+  "ContentVisibilityAutoStateChangeEvent",
+  "ConvolverNode",
+  "CookieChangeEvent",
+  "CookieStore",
+  "CookieStoreManager",
+  "CountQueuingStrategy",
+  "Credential",
+  "CredentialsContainer",
+  "Crypto",
+  "CryptoKey",
+  "CustomElementRegistry",
+  "CustomEvent",
+  "CustomStateSet",
+  "DOMException",
+  "DOMImplementation",
+  "DOMMatrix",
+  "DOMMatrixReadOnly",
+  "DOMParser",
+  "DOMPoint",
+  "DOMPointReadOnly",
+  "DOMQuad",
+  "DOMRect",
+  "DOMRectList",
+  "DOMRectReadOnly",
+  "DOMStringList",
+  "DOMStringMap",
+  "DOMTokenList",
+  "DataTransfer",
+  "DataTransferItem",
+  "DataTransferItemList",
+  "DecompressionStream",
+  "DelayNode",
+  "DeviceMotionEvent",
+  "DeviceOrientationEvent",
+  "Document",
+  "DocumentFragment",
+  "DocumentTimeline",
+  "DocumentType",
+  "DragEvent",
+  "DynamicsCompressorNode",
+  "Element",
+  "ElementInternals",
+  "EncodedAudioChunk",
+  "EncodedVideoChunk",
+  "ErrorEvent",
+  "Event",
+  "EventCounts",
+  "EventSource",
+  "EventTarget",
+  "External",
+  "File",
+  "FileList",
+  "FileReader",
+  "FileSystem",
+  "FileSystemDirectoryEntry",
+  "FileSystemDirectoryHandle",
+  "FileSystemDirectoryReader",
+  "FileSystemEntry",
+  "FileSystemFileEntry",
+  "FileSystemFileHandle",
+  "FileSystemHandle",
+  "FileSystemWritableFileStream",
+  "FocusEvent",
+  "FontFace",
+  "FontFaceSet",
+  "FontFaceSetLoadEvent",
+  "FormData",
+  "FormDataEvent",
+  "FragmentDirective",
+  "GainNode",
+  "Gamepad",
+  "GamepadButton",
+  "GamepadEvent",
+  "GamepadHapticActuator",
+  "Geolocation",
+  "GeolocationCoordinates",
+  "GeolocationPosition",
+  "GeolocationPositionError",
+  "HTMLAllCollection",
+  "HTMLAnchorElement",
+  "HTMLAreaElement",
+  "HTMLAudioElement",
+  "HTMLBRElement",
+  "HTMLBaseElement",
+  "HTMLBodyElement",
+  "HTMLButtonElement",
+  "HTMLCanvasElement",
+  "HTMLCollection",
+  "HTMLDListElement",
+  "HTMLDataElement",
+  "HTMLDataListElement",
+  "HTMLDetailsElement",
+  "HTMLDialogElement",
+  "HTMLDirectoryElement",
+  "HTMLDivElement",
+  "HTMLDocument",
+  "HTMLElement",
+  "HTMLEmbedElement",
+  "HTMLFieldSetElement",
+  "HTMLFontElement",
+  "HTMLFormControlsCollection",
+  "HTMLFormElement",
+  "HTMLFrameElement",
+  "HTMLFrameSetElement",
+  "HTMLHRElement",
+  "HTMLHeadElement",
+  "HTMLHeadingElement",
+  "HTMLHtmlElement",
+  "HTMLIFrameElement",
+  "HTMLImageElement",
+  "HTMLInputElement",
+  "HTMLLIElement",
+  "HTMLLabelElement",
+  "HTMLLegendElement",
+  "HTMLLinkElement",
+  "HTMLMapElement",
+  "HTMLMarqueeElement",
+  "HTMLMediaElement",
+  "HTMLMenuElement",
+  "HTMLMetaElement",
+  "HTMLMeterElement",
+  "HTMLModElement",
+  "HTMLOListElement",
+  "HTMLObjectElement",
+  "HTMLOptGroupElement",
+  "HTMLOptionElement",
+  "HTMLOptionsCollection",
+  "HTMLOutputElement",
+  "HTMLParagraphElement",
+  "HTMLParamElement",
+  "HTMLPictureElement",
+  "HTMLPreElement",
+  "HTMLProgressElement",
+  "HTMLQuoteElement",
+  "HTMLScriptElement",
+  "HTMLSelectElement",
+  "HTMLSlotElement",
+  "HTMLSourceElement",
+  "HTMLSpanElement",
+  "HTMLStyleElement",
+  "HTMLTableCaptionElement",
+  "HTMLTableCellElement",
+  "HTMLTableColElement",
+  "HTMLTableElement",
+  "HTMLTableRowElement",
+  "HTMLTableSectionElement",
+  "HTMLTemplateElement",
+  "HTMLTextAreaElement",
+  "HTMLTimeElement",
+  "HTMLTitleElement",
+  "HTMLTrackElement",
+  "HTMLUListElement",
+  "HTMLUnknownElement",
+  "HTMLVideoElement",
+  "HashChangeEvent",
+  "Headers",
+  "Highlight",
+  "HighlightRegistry",
+  "History",
+  "IDBCursor",
+  "IDBCursorWithValue",
+  "IDBDatabase",
+  "IDBFactory",
+  "IDBIndex",
+  "IDBKeyRange",
+  "IDBObjectStore",
+  "IDBOpenDBRequest",
+  "IDBRequest",
+  "IDBTransaction",
+  "IDBVersionChangeEvent",
+  "IIRFilterNode",
+  "IdleDeadline",
+  "Image",
+  "ImageBitmap",
+  "ImageBitmapRenderingContext",
+  "ImageCapture",
+  "ImageData",
+  "ImageDecoder",
+  "ImageTrack",
+  "ImageTrackList",
+  "InputDeviceInfo",
+  "InputEvent",
+  "IntersectionObserver",
+  "IntersectionObserverEntry",
+  "KeyboardEvent",
+  "KeyframeEffect",
+  "LargestContentfulPaint",
+  "Location",
+  "Lock",
+  "LockManager",
+  "MIDIAccess",
+  "MIDIConnectionEvent",
+  "MIDIInput",
+  "MIDIInputMap",
+  "MIDIMessageEvent",
+  "MIDIOutput",
+  "MIDIOutputMap",
+  "MIDIPort",
+  "MathMLElement",
+  "MediaCapabilities",
+  "MediaDeviceInfo",
+  "MediaDevices",
+  "MediaElementAudioSourceNode",
+  "MediaEncryptedEvent",
+  "MediaError",
+  "MediaKeyMessageEvent",
+  "MediaKeySession",
+  "MediaKeyStatusMap",
+  "MediaKeySystemAccess",
+  "MediaKeys",
+  "MediaList",
+  "MediaMetadata",
+  "MediaQueryList",
+  "MediaQueryListEvent",
+  "MediaRecorder",
+  "MediaSession",
+  "MediaSource",
+  "MediaSourceHandle",
+  "MediaStream",
+  "MediaStreamAudioDestinationNode",
+  "MediaStreamAudioSourceNode",
+  "MediaStreamTrack",
+  "MediaStreamTrackEvent",
+  "MessageChannel",
+  "MessageEvent",
+  "MessagePort",
+  "MimeType",
+  "MimeTypeArray",
+  "MouseEvent",
+  "MutationObserver",
+  "MutationRecord",
+  "NamedNodeMap",
+  "NavigationActivation",
+  "NavigationHistoryEntry",
+  "NavigationPreloadManager",
+  "Navigator",
+  "NavigatorLogin",
+  "Node",
+  "NodeFilter",
+  "NodeIterator",
+  "NodeList",
+  "Notification",
+  "OfflineAudioCompletionEvent",
+  "OfflineAudioContext",
+  "OffscreenCanvas",
+  "OffscreenCanvasRenderingContext2D",
+  "Option",
+  "OscillatorNode",
+  "OverconstrainedError",
+  "PageRevealEvent",
+  "PageSwapEvent",
+  "PageTransitionEvent",
+  "PannerNode",
+  "Path2D",
+  "PaymentAddress",
+  "PaymentMethodChangeEvent",
+  "PaymentRequest",
+  "PaymentRequestUpdateEvent",
+  "PaymentResponse",
+  "Performance",
+  "PerformanceEntry",
+  "PerformanceEventTiming",
+  "PerformanceMark",
+  "PerformanceMeasure",
+  "PerformanceNavigation",
+  "PerformanceNavigationTiming",
+  "PerformanceObserver",
+  "PerformanceObserverEntryList",
+  "PerformancePaintTiming",
+  "PerformanceResourceTiming",
+  "PerformanceServerTiming",
+  "PerformanceTiming",
+  "PeriodicWave",
+  "PermissionStatus",
+  "Permissions",
+  "PictureInPictureEvent",
+  "PictureInPictureWindow",
+  "Plugin",
+  "PluginArray",
+  "PointerEvent",
+  "PopStateEvent",
+  "ProcessingInstruction",
+  "ProgressEvent",
+  "PromiseRejectionEvent",
+  "PublicKeyCredential",
+  "PushManager",
+  "PushSubscription",
+  "PushSubscriptionOptions",
+  "RTCCertificate",
+  "RTCDTMFSender",
+  "RTCDTMFToneChangeEvent",
+  "RTCDataChannel",
+  "RTCDataChannelEvent",
+  "RTCDtlsTransport",
+  "RTCEncodedAudioFrame",
+  "RTCEncodedVideoFrame",
+  "RTCError",
+  "RTCErrorEvent",
+  "RTCIceCandidate",
+  "RTCIceTransport",
+  "RTCPeerConnection",
+  "RTCPeerConnectionIceErrorEvent",
+  "RTCPeerConnectionIceEvent",
+  "RTCRtpReceiver",
+  "RTCRtpScriptTransform",
+  "RTCRtpSender",
+  "RTCRtpTransceiver",
+  "RTCSctpTransport",
+  "RTCSessionDescription",
+  "RTCStatsReport",
+  "RTCTrackEvent",
+  "RadioNodeList",
+  "Range",
+  "ReadableByteStreamController",
+  "ReadableStream",
+  "ReadableStreamBYOBReader",
+  "ReadableStreamBYOBRequest",
+  "ReadableStreamDefaultController",
+  "ReadableStreamDefaultReader",
+  "RemotePlayback",
+  "Report",
+  "ReportBody",
+  "ReportingObserver",
+  "Request",
+  "ResizeObserver",
+  "ResizeObserverEntry",
+  "ResizeObserverSize",
+  "Response",
+  "SVGAElement",
+  "SVGAngle",
+  "SVGAnimateElement",
+  "SVGAnimateMotionElement",
+  "SVGAnimateTransformElement",
+  "SVGAnimatedAngle",
+  "SVGAnimatedBoolean",
+  "SVGAnimatedEnumeration",
+  "SVGAnimatedInteger",
+  "SVGAnimatedLength",
+  "SVGAnimatedLengthList",
+  "SVGAnimatedNumber",
+  "SVGAnimatedNumberList",
+  "SVGAnimatedPreserveAspectRatio",
+  "SVGAnimatedRect",
+  "SVGAnimatedString",
+  "SVGAnimatedTransformList",
+  "SVGAnimationElement",
+  "SVGCircleElement",
+  "SVGClipPathElement",
+  "SVGComponentTransferFunctionElement",
+  "SVGDefsElement",
+  "SVGDescElement",
+  "SVGElement",
+  "SVGEllipseElement",
+  "SVGFEBlendElement",
+  "SVGFEColorMatrixElement",
+  "SVGFEComponentTransferElement",
+  "SVGFECompositeElement",
+  "SVGFEConvolveMatrixElement",
+  "SVGFEDiffuseLightingElement",
+  "SVGFEDisplacementMapElement",
+  "SVGFEDistantLightElement",
+  "SVGFEDropShadowElement",
+  "SVGFEFloodElement",
+  "SVGFEFuncAElement",
+  "SVGFEFuncBElement",
+  "SVGFEFuncGElement",
+  "SVGFEFuncRElement",
+  "SVGFEGaussianBlurElement",
+  "SVGFEImageElement",
+  "SVGFEMergeElement",
+  "SVGFEMergeNodeElement",
+  "SVGFEMorphologyElement",
+  "SVGFEOffsetElement",
+  "SVGFEPointLightElement",
+  "SVGFESpecularLightingElement",
+  "SVGFESpotLightElement",
+  "SVGFETileElement",
+  "SVGFETurbulenceElement",
+  "SVGFilterElement",
+  "SVGForeignObjectElement",
+  "SVGGElement",
+  "SVGGeometryElement",
+  "SVGGradientElement",
+  "SVGGraphicsElement",
+  "SVGImageElement",
+  "SVGLength",
+  "SVGLengthList",
+  "SVGLineElement",
+  "SVGLinearGradientElement",
+  "SVGMPathElement",
+  "SVGMarkerElement",
+  "SVGMaskElement",
+  "SVGMatrix",
+  "SVGMetadataElement",
+  "SVGNumber",
+  "SVGNumberList",
+  "SVGPathElement",
+  "SVGPatternElement",
+  "SVGPoint",
+  "SVGPointList",
+  "SVGPolygonElement",
+  "SVGPolylineElement",
+  "SVGPreserveAspectRatio",
+  "SVGRadialGradientElement",
+  "SVGRect",
+  "SVGRectElement",
+  "SVGSVGElement",
+  "SVGScriptElement",
+  "SVGSetElement",
+  "SVGStopElement",
+  "SVGStringList",
+  "SVGStyleElement",
+  "SVGSwitchElement",
+  "SVGSymbolElement",
+  "SVGTSpanElement",
+  "SVGTextContentElement",
+  "SVGTextElement",
+  "SVGTextPathElement",
+  "SVGTextPositioningElement",
+  "SVGTitleElement",
+  "SVGTransform",
+  "SVGTransformList",
+  "SVGUnitTypes",
+  "SVGUseElement",
+  "SVGViewElement",
+  "Screen",
+  "ScreenOrientation",
+  "ScriptProcessorNode",
+  "SecurityPolicyViolationEvent",
+  "Selection",
+  "ServiceWorker",
+  "ServiceWorkerContainer",
+  "ServiceWorkerRegistration",
+  "ShadowRoot",
+  "SharedWorker",
+  "SourceBuffer",
+  "SourceBufferList",
+  "SpeechRecognitionAlternative",
+  "SpeechRecognitionResult",
+  "SpeechRecognitionResultList",
+  "SpeechSynthesis",
+  "SpeechSynthesisErrorEvent",
+  "SpeechSynthesisEvent",
+  "SpeechSynthesisUtterance",
+  "SpeechSynthesisVoice",
+  "StaticRange",
+  "StereoPannerNode",
+  "Storage",
+  "StorageEvent",
+  "StorageManager",
+  "StylePropertyMap",
+  "StylePropertyMapReadOnly",
+  "StyleSheet",
+  "StyleSheetList",
+  "SubmitEvent",
+  "SubtleCrypto",
+  "Text",
+  "TextDecoder",
+  "TextDecoderStream",
+  "TextEncoder",
+  "TextEncoderStream",
+  "TextEvent",
+  "TextMetrics",
+  "TextTrack",
+  "TextTrackCue",
+  "TextTrackCueList",
+  "TextTrackList",
+  "TimeRanges",
+  "ToggleEvent",
+  "Touch",
+  "TouchEvent",
+  "TouchList",
+  "TrackEvent",
+  "TransformStream",
+  "TransformStreamDefaultController",
+  "TransitionEvent",
+  "TreeWalker",
+  "UIEvent",
+  "URL",
+  "URLSearchParams",
+  "UserActivation",
+  "VTTCue",
+  "VTTRegion",
+  "ValidityState",
+  "VideoColorSpace",
+  "VideoDecoder",
+  "VideoEncoder",
+  "VideoFrame",
+  "VideoPlaybackQuality",
+  "ViewTransition",
+  "ViewTransitionTypeSet",
+  "VisualViewport",
+  "WakeLock",
+  "WakeLockSentinel",
+  "WaveShaperNode",
+  "WebAssembly",
+  "WebGL2RenderingContext",
+  "WebGLActiveInfo",
+  "WebGLBuffer",
+  "WebGLContextEvent",
+  "WebGLFramebuffer",
+  "WebGLProgram",
+  "WebGLQuery",
+  "WebGLRenderbuffer",
+  "WebGLRenderingContext",
+  "WebGLSampler",
+  "WebGLShader",
+  "WebGLShaderPrecisionFormat",
+  "WebGLSync",
+  "WebGLTexture",
+  "WebGLTransformFeedback",
+  "WebGLUniformLocation",
+  "WebGLVertexArrayObject",
+  "WebKitCSSMatrix",
+  "WebSocket",
+  "WebTransport",
+  "WebTransportBidirectionalStream",
+  "WebTransportDatagramDuplexStream",
+  "WebTransportError",
+  "WheelEvent",
+  "Window",
+  "Worker",
+  "Worklet",
+  "WritableStream",
+  "WritableStreamDefaultController",
+  "WritableStreamDefaultWriter",
+  "XMLDocument",
+  "XMLHttpRequest",
+  "XMLHttpRequestEventTarget",
+  "XMLHttpRequestUpload",
+  "XMLSerializer",
+  "XPathEvaluator",
+  "XPathExpression",
+  "XPathResult",
+  "XSLTProcessor",
+  "addEventListener",
+  "alert",
+  "atob",
+  "blur",
+  "btoa",
+  "caches",
+  "cancelAnimationFrame",
+  "cancelIdleCallback",
+  "captureEvents",
+  "clearInterval",
+  "clearTimeout",
+  "clientInformation",
+  "close",
+  "closed",
+  "confirm",
+  "console",
+  "cookieStore",
+  "createImageBitmap",
+  "crossOriginIsolated",
+  "crypto",
+  "customElements",
+  "devicePixelRatio",
+  "dispatchEvent",
+  "document",
+  "event",
+  "external",
+  "fetch",
+  "focus",
+  "frameElement",
+  "frames",
+  "getComputedStyle",
+  "getSelection",
+  "history",
+  "indexedDB",
+  "innerHeight",
+  "innerWidth",
+  "isSecureContext",
+  "length",
+  "localStorage",
+  "location",
+  "locationbar",
+  "matchMedia",
+  "menubar",
+  "moveBy",
+  "moveTo",
+  "name",
+  "navigator",
+  "onabort",
+  "onafterprint",
+  "onanimationcancel",
+  "onanimationend",
+  "onanimationiteration",
+  "onanimationstart",
+  "onauxclick",
+  "onbeforeinput",
+  "onbeforematch",
+  "onbeforeprint",
+  "onbeforetoggle",
+  "onbeforeunload",
+  "onblur",
+  "oncancel",
+  "oncanplay",
+  "oncanplaythrough",
+  "onchange",
+  "onclick",
+  "onclose",
+  "oncontextlost",
+  "oncontextmenu",
+  "oncontextrestored",
+  "oncopy",
+  "oncuechange",
+  "oncut",
+  "ondblclick",
+  "ondevicemotion",
+  "ondeviceorientation",
+  "ondeviceorientationabsolute",
+  "ondrag",
+  "ondragend",
+  "ondragenter",
+  "ondragleave",
+  "ondragover",
+  "ondragstart",
+  "ondrop",
+  "ondurationchange",
+  "onemptied",
+  "onended",
+  "onerror",
+  "onfocus",
+  "onformdata",
+  "ongamepadconnected",
+  "ongamepaddisconnected",
+  "ongotpointercapture",
+  "onhashchange",
+  "oninput",
+  "oninvalid",
+  "onkeydown",
+  "onkeypress",
+  "onkeyup",
+  "onlanguagechange",
+  "onload",
+  "onloadeddata",
+  "onloadedmetadata",
+  "onloadstart",
+  "onlostpointercapture",
+  "onmessage",
+  "onmessageerror",
+  "onmousedown",
+  "onmouseenter",
+  "onmouseleave",
+  "onmousemove",
+  "onmouseout",
+  "onmouseover",
+  "onmouseup",
+  "onoffline",
+  "ononline",
+  "onorientationchange",
+  "onpagehide",
+  "onpagereveal",
+  "onpageshow",
+  "onpageswap",
+  "onpaste",
+  "onpause",
+  "onplay",
+  "onplaying",
+  "onpointercancel",
+  "onpointerdown",
+  "onpointerenter",
+  "onpointerleave",
+  "onpointermove",
+  "onpointerout",
+  "onpointerover",
+  "onpointerrawupdate",
+  "onpointerup",
+  "onpopstate",
+  "onprogress",
+  "onratechange",
+  "onrejectionhandled",
+  "onreset",
+  "onresize",
+  "onscroll",
+  "onscrollend",
+  "onsecuritypolicyviolation",
+  "onseeked",
+  "onseeking",
+  "onselect",
+  "onselectionchange",
+  "onselectstart",
+  "onslotchange",
+  "onstalled",
+  "onstorage",
+  "onsubmit",
+  "onsuspend",
+  "ontimeupdate",
+  "ontoggle",
+  "ontouchcancel",
+  "ontouchend",
+  "ontouchmove",
+  "ontouchstart",
+  "ontransitioncancel",
+  "ontransitionend",
+  "ontransitionrun",
+  "ontransitionstart",
+  "onunhandledrejection",
+  "onunload",
+  "onvolumechange",
+  "onwaiting",
+  "onwebkitanimationend",
+  "onwebkitanimationiteration",
+  "onwebkitanimationstart",
+  "onwebkittransitionend",
+  "onwheel",
+  "open",
+  "opener",
+  "orientation",
+  "origin",
+  "originAgentCluster",
+  "outerHeight",
+  "outerWidth",
+  "pageXOffset",
+  "pageYOffset",
+  "parent",
+  "performance",
+  "personalbar",
+  "postMessage",
+  "print",
+  "prompt",
+  "queueMicrotask",
+  "releaseEvents",
+  "removeEventListener",
+  "reportError",
+  "requestAnimationFrame",
+  "requestIdleCallback",
+  "resizeBy",
+  "resizeTo",
+  "screen",
+  "screenLeft",
+  "screenTop",
+  "screenX",
+  "screenY",
+  "scroll",
+  "scrollBy",
+  "scrollTo",
+  "scrollX",
+  "scrollY",
+  "scrollbars",
+  "self",
+  "sessionStorage",
+  "setInterval",
+  "setTimeout",
+  "speechSynthesis",
+  "status",
+  "statusbar",
+  "stop",
+  "structuredClone",
+  "toString",
+  "toolbar",
+  "top",
+  "visualViewport",
+  "webkitURL",
+  "window",
+];
+
+/** Globals declared by lib.webworker.d.ts, excluding `ES_GLOBALS`. */
+export const WORKER_GLOBALS: readonly string[] = [
+  "AbortController",
+  "AbortSignal",
+  "AudioData",
+  "AudioDecoder",
+  "AudioEncoder",
+  "Blob",
+  "BroadcastChannel",
+  "ByteLengthQueuingStrategy",
+  "CSSImageValue",
+  "CSSKeywordValue",
+  "CSSMathClamp",
+  "CSSMathInvert",
+  "CSSMathMax",
+  "CSSMathMin",
+  "CSSMathNegate",
+  "CSSMathProduct",
+  "CSSMathSum",
+  "CSSMathValue",
+  "CSSMatrixComponent",
+  "CSSNumericArray",
+  "CSSNumericValue",
+  "CSSPerspective",
+  "CSSRotate",
+  "CSSScale",
+  "CSSSkew",
+  "CSSSkewX",
+  "CSSSkewY",
+  "CSSStyleValue",
+  "CSSTransformComponent",
+  "CSSTransformValue",
+  "CSSTranslate",
+  "CSSUnitValue",
+  "CSSUnparsedValue",
+  "CSSVariableReferenceValue",
+  "Cache",
+  "CacheStorage",
+  "CanvasGradient",
+  "CanvasPattern",
+  "Client",
+  "Clients",
+  "CloseEvent",
+  "CompressionStream",
+  "CookieStore",
+  "CookieStoreManager",
+  "CountQueuingStrategy",
+  "Crypto",
+  "CryptoKey",
+  "CustomEvent",
+  "DOMException",
+  "DOMMatrix",
+  "DOMMatrixReadOnly",
+  "DOMPoint",
+  "DOMPointReadOnly",
+  "DOMQuad",
+  "DOMRect",
+  "DOMRectReadOnly",
+  "DOMStringList",
+  "DecompressionStream",
+  "DedicatedWorkerGlobalScope",
+  "EncodedAudioChunk",
+  "EncodedVideoChunk",
+  "ErrorEvent",
+  "Event",
+  "EventSource",
+  "EventTarget",
+  "ExtendableCookieChangeEvent",
+  "ExtendableEvent",
+  "ExtendableMessageEvent",
+  "FetchEvent",
+  "File",
+  "FileList",
+  "FileReader",
+  "FileReaderSync",
+  "FileSystemDirectoryHandle",
+  "FileSystemFileHandle",
+  "FileSystemHandle",
+  "FileSystemSyncAccessHandle",
+  "FileSystemWritableFileStream",
+  "FontFace",
+  "FontFaceSet",
+  "FontFaceSetLoadEvent",
+  "FormData",
+  "Headers",
+  "IDBCursor",
+  "IDBCursorWithValue",
+  "IDBDatabase",
+  "IDBFactory",
+  "IDBIndex",
+  "IDBKeyRange",
+  "IDBObjectStore",
+  "IDBOpenDBRequest",
+  "IDBRequest",
+  "IDBTransaction",
+  "IDBVersionChangeEvent",
+  "ImageBitmap",
+  "ImageBitmapRenderingContext",
+  "ImageData",
+  "ImageDecoder",
+  "ImageTrack",
+  "ImageTrackList",
+  "Lock",
+  "LockManager",
+  "MediaCapabilities",
+  "MediaSourceHandle",
+  "MediaStreamTrackProcessor",
+  "MessageChannel",
+  "MessageEvent",
+  "MessagePort",
+  "NavigationPreloadManager",
+  "Notification",
+  "NotificationEvent",
+  "OffscreenCanvas",
+  "OffscreenCanvasRenderingContext2D",
+  "Path2D",
+  "Performance",
+  "PerformanceEntry",
+  "PerformanceMark",
+  "PerformanceMeasure",
+  "PerformanceObserver",
+  "PerformanceObserverEntryList",
+  "PerformanceResourceTiming",
+  "PerformanceServerTiming",
+  "PermissionStatus",
+  "Permissions",
+  "ProgressEvent",
+  "PromiseRejectionEvent",
+  "PushEvent",
+  "PushManager",
+  "PushMessageData",
+  "PushSubscription",
+  "PushSubscriptionChangeEvent",
+  "PushSubscriptionOptions",
+  "RTCDataChannel",
+  "RTCEncodedAudioFrame",
+  "RTCEncodedVideoFrame",
+  "RTCRtpScriptTransformer",
+  "RTCTransformEvent",
+  "ReadableByteStreamController",
+  "ReadableStream",
+  "ReadableStreamBYOBReader",
+  "ReadableStreamBYOBRequest",
+  "ReadableStreamDefaultController",
+  "ReadableStreamDefaultReader",
+  "Report",
+  "ReportBody",
+  "ReportingObserver",
+  "Request",
+  "Response",
+  "SecurityPolicyViolationEvent",
+  "ServiceWorker",
+  "ServiceWorkerContainer",
+  "ServiceWorkerGlobalScope",
+  "ServiceWorkerRegistration",
+  "SharedWorkerGlobalScope",
+  "StorageManager",
+  "StylePropertyMapReadOnly",
+  "SubtleCrypto",
+  "TextDecoder",
+  "TextDecoderStream",
+  "TextEncoder",
+  "TextEncoderStream",
+  "TextMetrics",
+  "TransformStream",
+  "TransformStreamDefaultController",
+  "URL",
+  "URLSearchParams",
+  "VideoColorSpace",
+  "VideoDecoder",
+  "VideoEncoder",
+  "VideoFrame",
+  "WebAssembly",
+  "WebGL2RenderingContext",
+  "WebGLActiveInfo",
+  "WebGLBuffer",
+  "WebGLContextEvent",
+  "WebGLFramebuffer",
+  "WebGLProgram",
+  "WebGLQuery",
+  "WebGLRenderbuffer",
+  "WebGLRenderingContext",
+  "WebGLSampler",
+  "WebGLShader",
+  "WebGLShaderPrecisionFormat",
+  "WebGLSync",
+  "WebGLTexture",
+  "WebGLTransformFeedback",
+  "WebGLUniformLocation",
+  "WebGLVertexArrayObject",
+  "WebSocket",
+  "WebTransport",
+  "WebTransportBidirectionalStream",
+  "WebTransportDatagramDuplexStream",
+  "WebTransportError",
+  "WindowClient",
+  "Worker",
+  "WorkerGlobalScope",
+  "WorkerLocation",
+  "WorkerNavigator",
+  "WritableStream",
+  "WritableStreamDefaultController",
+  "WritableStreamDefaultWriter",
+  "XMLHttpRequest",
+  "XMLHttpRequestEventTarget",
+  "XMLHttpRequestUpload",
+  "addEventListener",
+  "atob",
+  "btoa",
+  "caches",
+  "cancelAnimationFrame",
+  "clearInterval",
+  "clearTimeout",
+  "close",
+  "console",
+  "createImageBitmap",
+  "crossOriginIsolated",
+  "crypto",
+  "dispatchEvent",
+  "fetch",
+  "fonts",
+  "importScripts",
+  "indexedDB",
+  "isSecureContext",
+  "location",
+  "name",
+  "navigator",
+  "onerror",
+  "onlanguagechange",
+  "onmessage",
+  "onmessageerror",
+  "onoffline",
+  "ononline",
+  "onrejectionhandled",
+  "onrtctransform",
+  "onunhandledrejection",
+  "origin",
+  "performance",
+  "postMessage",
+  "queueMicrotask",
+  "removeEventListener",
+  "reportError",
+  "requestAnimationFrame",
+  "self",
+  "setInterval",
+  "setTimeout",
+  "structuredClone",
+];
+
+/** Dedicated worker globals swapped for `ServiceWorkerGlobalScope` members. */
+export const SERVICE_WORKER_GLOBALS: readonly string[] = [
+  "AbortController",
+  "AbortSignal",
+  "AudioData",
+  "AudioDecoder",
+  "AudioEncoder",
+  "Blob",
+  "BroadcastChannel",
+  "ByteLengthQueuingStrategy",
+  "CSSImageValue",
+  "CSSKeywordValue",
+  "CSSMathClamp",
+  "CSSMathInvert",
+  "CSSMathMax",
+  "CSSMathMin",
+  "CSSMathNegate",
+  "CSSMathProduct",
+  "CSSMathSum",
+  "CSSMathValue",
+  "CSSMatrixComponent",
+  "CSSNumericArray",
+  "CSSNumericValue",
+  "CSSPerspective",
+  "CSSRotate",
+  "CSSScale",
+  "CSSSkew",
+  "CSSSkewX",
+  "CSSSkewY",
+  "CSSStyleValue",
+  "CSSTransformComponent",
+  "CSSTransformValue",
+  "CSSTranslate",
+  "CSSUnitValue",
+  "CSSUnparsedValue",
+  "CSSVariableReferenceValue",
+  "Cache",
+  "CacheStorage",
+  "CanvasGradient",
+  "CanvasPattern",
+  "Client",
+  "Clients",
+  "CloseEvent",
+  "CompressionStream",
+  "CookieStore",
+  "CookieStoreManager",
+  "CountQueuingStrategy",
+  "Crypto",
+  "CryptoKey",
+  "CustomEvent",
+  "DOMException",
+  "DOMMatrix",
+  "DOMMatrixReadOnly",
+  "DOMPoint",
+  "DOMPointReadOnly",
+  "DOMQuad",
+  "DOMRect",
+  "DOMRectReadOnly",
+  "DOMStringList",
+  "DecompressionStream",
+  "DedicatedWorkerGlobalScope",
+  "EncodedAudioChunk",
+  "EncodedVideoChunk",
+  "ErrorEvent",
+  "Event",
+  "EventSource",
+  "EventTarget",
+  "ExtendableCookieChangeEvent",
+  "ExtendableEvent",
+  "ExtendableMessageEvent",
+  "FetchEvent",
+  "File",
+  "FileList",
+  "FileReader",
+  "FileReaderSync",
+  "FileSystemDirectoryHandle",
+  "FileSystemFileHandle",
+  "FileSystemHandle",
+  "FileSystemSyncAccessHandle",
+  "FileSystemWritableFileStream",
+  "FontFace",
+  "FontFaceSet",
+  "FontFaceSetLoadEvent",
+  "FormData",
+  "Headers",
+  "IDBCursor",
+  "IDBCursorWithValue",
+  "IDBDatabase",
+  "IDBFactory",
+  "IDBIndex",
+  "IDBKeyRange",
+  "IDBObjectStore",
+  "IDBOpenDBRequest",
+  "IDBRequest",
+  "IDBTransaction",
+  "IDBVersionChangeEvent",
+  "ImageBitmap",
+  "ImageBitmapRenderingContext",
+  "ImageData",
+  "ImageDecoder",
+  "ImageTrack",
+  "ImageTrackList",
+  "Lock",
+  "LockManager",
+  "MediaCapabilities",
+  "MediaSourceHandle",
+  "MediaStreamTrackProcessor",
+  "MessageChannel",
+  "MessageEvent",
+  "MessagePort",
+  "NavigationPreloadManager",
+  "Notification",
+  "NotificationEvent",
+  "OffscreenCanvas",
+  "OffscreenCanvasRenderingContext2D",
+  "Path2D",
+  "Performance",
+  "PerformanceEntry",
+  "PerformanceMark",
+  "PerformanceMeasure",
+  "PerformanceObserver",
+  "PerformanceObserverEntryList",
+  "PerformanceResourceTiming",
+  "PerformanceServerTiming",
+  "PermissionStatus",
+  "Permissions",
+  "ProgressEvent",
+  "PromiseRejectionEvent",
+  "PushEvent",
+  "PushManager",
+  "PushMessageData",
+  "PushSubscription",
+  "PushSubscriptionChangeEvent",
+  "PushSubscriptionOptions",
+  "RTCDataChannel",
+  "RTCEncodedAudioFrame",
+  "RTCEncodedVideoFrame",
+  "RTCRtpScriptTransformer",
+  "RTCTransformEvent",
+  "ReadableByteStreamController",
+  "ReadableStream",
+  "ReadableStreamBYOBReader",
+  "ReadableStreamBYOBRequest",
+  "ReadableStreamDefaultController",
+  "ReadableStreamDefaultReader",
+  "Report",
+  "ReportBody",
+  "ReportingObserver",
+  "Request",
+  "Response",
+  "SecurityPolicyViolationEvent",
+  "ServiceWorker",
+  "ServiceWorkerContainer",
+  "ServiceWorkerGlobalScope",
+  "ServiceWorkerRegistration",
+  "SharedWorkerGlobalScope",
+  "StorageManager",
+  "StylePropertyMapReadOnly",
+  "SubtleCrypto",
+  "TextDecoder",
+  "TextDecoderStream",
+  "TextEncoder",
+  "TextEncoderStream",
+  "TextMetrics",
+  "TransformStream",
+  "TransformStreamDefaultController",
+  "URL",
+  "URLSearchParams",
+  "VideoColorSpace",
+  "VideoDecoder",
+  "VideoEncoder",
+  "VideoFrame",
+  "WebAssembly",
+  "WebGL2RenderingContext",
+  "WebGLActiveInfo",
+  "WebGLBuffer",
+  "WebGLContextEvent",
+  "WebGLFramebuffer",
+  "WebGLProgram",
+  "WebGLQuery",
+  "WebGLRenderbuffer",
+  "WebGLRenderingContext",
+  "WebGLSampler",
+  "WebGLShader",
+  "WebGLShaderPrecisionFormat",
+  "WebGLSync",
+  "WebGLTexture",
+  "WebGLTransformFeedback",
+  "WebGLUniformLocation",
+  "WebGLVertexArrayObject",
+  "WebSocket",
+  "WebTransport",
+  "WebTransportBidirectionalStream",
+  "WebTransportDatagramDuplexStream",
+  "WebTransportError",
+  "WindowClient",
+  "Worker",
+  "WorkerGlobalScope",
+  "WorkerLocation",
+  "WorkerNavigator",
+  "WritableStream",
+  "WritableStreamDefaultController",
+  "WritableStreamDefaultWriter",
+  "XMLHttpRequest",
+  "XMLHttpRequestEventTarget",
+  "XMLHttpRequestUpload",
+  "addEventListener",
+  "atob",
+  "btoa",
+  "caches",
+  "clearInterval",
+  "clearTimeout",
+  "clients",
+  "console",
+  "cookieStore",
+  "createImageBitmap",
+  "crossOriginIsolated",
+  "crypto",
+  "dispatchEvent",
+  "fetch",
+  "fonts",
+  "importScripts",
+  "indexedDB",
+  "isSecureContext",
+  "location",
+  "navigator",
+  "onactivate",
+  "oncookiechange",
+  "onerror",
+  "onfetch",
+  "oninstall",
+  "onlanguagechange",
+  "onmessage",
+  "onmessageerror",
+  "onnotificationclick",
+  "onnotificationclose",
+  "onoffline",
+  "ononline",
+  "onpush",
+  "onpushsubscriptionchange",
+  "onrejectionhandled",
+  "onunhandledrejection",
+  "origin",
+  "performance",
+  "queueMicrotask",
+  "registration",
+  "removeEventListener",
+  "reportError",
+  "self",
+  "serviceWorker",
+  "setInterval",
+  "setTimeout",
+  "skipWaiting",
+  "structuredClone",
+];
@@ -0,0 +1,58 @@
+import { assert, assertThrows } from "std/assert";
+import { createClientGlobals } from "./inline-client-env.ts";
+
+Deno.test("env: browser preset covers DOM APIs and ECMAScript builtins", () => {
+  const globals = createClientGlobals();
+  for (
+    const name of [
+      "localStorage",
+      "sessionStorage",
+      "getComputedStyle",
+      "WebSocket",
+      "HTMLSelectElement",
+      "Worker",
+      "Map",
+      "Intl",
+      "globalThis",
+      "undefined",
+    ]
+  ) {
+    assert(globals.has(name), `browser preset should include ${name}`);
+  }
+  assert(!globals.has("process"), "browser preset should not include process");
+});
+
+Deno.test("env: worker presets follow their global scope", () => {
+  const worker = createClientGlobals({ preset: "worker" });
+  assert(worker.has("postMessage") && worker.has("importScripts"));
+  assert(!worker.has("document") && !worker.has("localStorage"));
+
+  const serviceWorker = createClientGlobals({ preset: "service-worker" });
+  assert(serviceWorker.has("clients") && serviceWorker.has("skipWaiting"));
+  assert(serviceWorker.has("fetch") && serviceWorker.has("caches"));
+  assert(
+    !serviceWorker.has("postMessage") &&
+      !serviceWorker.has("requestAnimationFrame"),
+    "service workers do not have dedicated worker globals",
+  );
+});
+
+Deno.test("env: globals option adds and removes names", () => {
+  const globals = createClientGlobals({
+    globals: { add: ["analytics", "alert"], remove: ["alert", "name"] },
+  });
+  assert(globals.has("analytics"));
+  assert(!globals.has("alert"), "remove should win over add");
+  assert(!globals.has("name"));
+});
+
+Deno.test("env: unknown presets are rejected", () => {
+  assertThrows(
+    () =>
+      createClientGlobals({
+        preset: "node" as unknown as "browser",
+      }),
+    Error,
+    'unknown env preset "node"',
+  );
+});
@@ -0,0 +1,67 @@
+/**
+ * @module
+ * Global names available to extracted client handlers, shared by the Rolldown
+ * plugin and the ESLint rules.
+ */
+
+import {
+  BROWSER_GLOBALS,
+  ES_GLOBALS,
+  SERVICE_WORKER_GLOBALS,
+  WORKER_GLOBALS,
+} from "./inline-client-env-globals.ts";
+
+/** Runtime the client chunks are loaded in. */
+export type InlineClientEnvPreset = "browser" | "worker" | "service-worker";
+
+export type InlineClientEnvOptions = {
+  /**
+   * Which lib's globals handlers may reference. Defaults to `"browser"`.
+   */
+  preset?: InlineClientEnvPreset;
+  /**
+   * Names to allow on top of the preset, or to stop treating as globals.
+   * `remove` wins when a name appears in both.
+   */
+  globals?: { add?: string[]; remove?: string[] };
+};
+
+export const ENV_PRESETS: readonly InlineClientEnvPreset[] = [
+  "browser",
+  "worker",
+  "service-worker",
+];
+
+const presetGlobals: Record<InlineClientEnvPreset, readonly string[]> = {
+  browser: BROWSER_GLOBALS,
+  worker: WORKER_GLOBALS,
+  "service-worker": SERVICE_WORKER_GLOBALS,
+};
+
+export function isEnvPreset(value: unknown): value is InlineClientEnvPreset {
+  return typeof value === "string" &&
+    (ENV_PRESETS as readonly string[]).includes(value);
+}
+
+/** Resolves `env` options to the set of names treated as client globals. */
+export function createClientGlobals(
+  env: InlineClientEnvOptions = {},
+): ReadonlySet<string> {
+  const preset = env.preset ?? "browser";
+  if (!isEnvPreset(preset)) {
+    throw new Error(
+      `[use-client] unknown env preset "${preset}". Expected one of: ${
+        ENV_PRESETS.join(", ")
+      }`,
+    );
+  }
+  const globals = new Set([
+    ...ES_GLOBALS,
+    ...presetGlobals[preset],
+    ...env.globals?.add ?? [],
+  ]);
+  for (const name of env.globals?.remove ?? []) {
+    globals.delete(name);
+  }
+  return globals;
+}
@@ -0,0 +1,78 @@
+import { assertEquals } from "std/assert";
+import { Linter } from "eslint";
+import plugin from "./use-client-plugin.ts";
+
+function lintHandler(code: string, options?: Record<string, unknown>) {
+  const linter = new Linter({ configType: "flat" });
+  const rule = "use-client/no-invalid-inline-client-closure";
+  return linter.verify(code, [{
+    plugins: { "use-client": { rules: plugin.rules } },
+    rules: { [rule]: options ? ["error", options] : "error" },
+  }]).map((message) => message.message);
+}
+
+Deno.test("eslint: browser globals are allowed by default", () => {
+  const messages = lintHandler(`export const h = () => {
+  "use client";
+  localStorage.setItem("theme", getComputedStyle(document.body).color);
+  return new WebSocket("/live");
+};`);
+  assertEquals(messages, []);
+});
+
+Deno.test("eslint: names outside the environment are reported", () => {
+  const messages = lintHandler(
+    `export const h = () => {
+  "use client";
+  process.exit(document.title.length);
+};`,
+    { preset: "worker" },
+  );
+  assertEquals(messages, [
+    'Inline client handlers run in the worker environment, where "process" is not a global. Import it or list it in the `globals` option.',
+    'Inline client handlers run in the worker environment, where "document" is not a global. Import it or list it in the `globals` option.',
+  ]);
+});
+
+Deno.test("eslint: globals option extends the environment", () => {
+  const messages = lintHandler(
+    `export const h = () => {
+  "use client";
+  analytics.track(alert);
+};`,
+    { globals: { add: ["analytics"], remove: ["alert"] } },
+  );
+  assertEquals(messages, [
+    'Inline client handlers run in the browser environment, where "alert" is not a global. Import it or list it in the `globals` option.',
+  ]);
+});
+
+Deno.test("eslint: outer scope captures are still reported", () => {
+  const messages = lintHandler(`export function Component(props) {
+  return () => {
+    "use client";
+    console.log(props);
+  };
+}`);
+  assertEquals(messages, [
+    'Inline client handlers cannot reference "props" from an outer scope unless it is a never-reassigned, JSON-serializable value. Move the value inside the handler or read it from the DOM instead.',
+  ]);
+});
+
+Deno.test("eslint: never-reassigned JSON literals may be captured", () => {
+  const messages = lintHandler(`export function Component() {
+  const label = "menu";
+  const limits = { min: -1, tags: ["a", \`b\`] };
+  let count = 0;
+  const now = Date.now();
+  count += 1;
+  return () => {
+    "use client";
+    console.log(label, limits, count, now);
+  };
+}`);
+  assertEquals(messages, [
+    'Inline client handlers cannot reference "count" from an outer scope unless it is a never-reassigned, JSON-serializable value. Move the value inside the handler or read it from the DOM instead.',
+    'Inline client handlers cannot reference "now" from an outer scope unless it is a never-reassigned, JSON-serializable value. Move the value inside the handler or read it from the DOM instead.',
+  ]);
+});
@@ -12,10 +12,17 @@ import type {
   Literal,
   Node as EstreeNode,
 } from "estree";
+import {
+  createClientGlobals,
+  ENV_PRESETS,
+  type InlineClientEnvOptions,
+} from "../env/inline-client-env.ts";
 
 const messages = {
   externalReference:
-    'Inline client handlers cannot reference "{{name}}" from an outer scope. Move the value inside the handler or read it from the DOM instead.',
+    'Inline client handlers cannot reference "{{name}}" from an outer scope unless it is a never-reassigned, JSON-serializable value. Move the value inside the handler or read it from the DOM instead.',
+  unavailableGlobal:
+    'Inline client handlers run in the {{preset}} environment, where "{{name}}" is not a global. Import it or list it in the `globals` option.',
   missingDirective:
     'Inline event handlers passed to the `on` attribute must start with a `"use client"` directive so they can be bundled.',
 } as const;
@@ -29,13 +36,28 @@ type NodeWithParent = EstreeNode & {
 
 type ReferenceLike = {
   identifier: Identifier | null;
-  resolved: {
-    scope: ScopeLike;
-    defs: unknown[];
-  } | null;
+  resolved: VariableLike | null;
   isTypeReference?: boolean;
+  isWrite?(): boolean;
+  init?: boolean;
 };
 
+type VariableLike = {
+  scope: ScopeLike;
+  defs: unknown[];
+  references?: ReferenceLike[];
+};
+
+type DefinitionLike = {
+  type: string;
+  name: NodeLike;
+  node: NodeLike;
+  parent?: NodeLike | null;
+};
+
+/** Loosely typed node, also covering TypeScript annotations. */
+type NodeLike = { type: string; [key: string]: unknown };
+
 type ScopeLike = {
   type: string;
   upper?: ScopeLike | null;
@@ -90,11 +112,117 @@ function isScopeWithin(
   return false;
 }
 
+function isNodeLike(value: unknown): value is NodeLike {
+  return typeof value === "object" && value !== null &&
+    typeof (value as { type?: unknown }).type === "string";
+}
+
+const JSON_TYPE_KEYWORDS = new Set([
+  "TSStringKeyword",
+  "TSNumberKeyword",
+  "TSBooleanKeyword",
+  "TSNullKeyword",
+]);
+
+/** Inline type annotations only; named types are not followed here. */
+function isJsonType(type: unknown): boolean {
+  if (!isNodeLike(type)) return false;
+  if (JSON_TYPE_KEYWORDS.has(type.type)) return true;
+  switch (type.type) {
+    case "TSLiteralType":
+      return isNodeLike(type.literal) && type.literal.type === "Literal";
+    case "TSUnionType":
+      return Array.isArray(type.types) && type.types.every(isJsonType);
+    case "TSArrayType":
+      return isJsonType(type.elementType);
+    case "TSTupleType":
+      return Array.isArray(type.elementTypes) &&
+        type.elementTypes.every(isJsonType);
+    case "TSTypeOperator":
+      return type.operator === "readonly" && isJsonType(type.typeAnnotation);
+    case "TSTypeLiteral":
+      return Array.isArray(type.members) &&
+        type.members.every((member) =>
+          isNodeLike(member) &&
+          member.type === "TSPropertySignature" &&
+          member.computed !== true &&
+          member.optional !== true &&
+          isNodeLike(member.typeAnnotation) &&
+          isJsonType(member.typeAnnotation.typeAnnotation)
+        );
+    default:
+      return false;
+  }
+}
+
+function isJsonLiteral(node: unknown): boolean {
+  if (!isNodeLike(node)) return false;
+  switch (node.type) {
+    case "Literal":
+      return !("regex" in node) && !("bigint" in node);
+    case "TemplateLiteral":
+      return Array.isArray(node.expressions) && node.expressions.length === 0;
+    case "UnaryExpression":
+      return node.operator === "-" && isNodeLike(node.argument) &&
+        node.argument.type === "Literal" &&
+        typeof node.argument.value === "number";
+    case "TSAsExpression":
+    case "TSSatisfiesExpression":
+      return isJsonLiteral(node.expression);
+    case "ArrayExpression":
+      return Array.isArray(node.elements) &&
+        node.elements.every(isJsonLiteral);
+    case "ObjectExpression":
+      return Array.isArray(node.properties) &&
+        node.properties.every((property) =>
+          isNodeLike(property) &&
+          property.type === "Property" &&
+          property.kind === "init" &&
+          property.computed !== true &&
+          property.method !== true &&
+          property.shorthand !== true &&
+          isJsonLiteral(property.value)
+        );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Mirrors the plugin: never-reassigned `const` JSON literals and variables or
+ * parameters annotated with a JSON type are passed to the handler as bound
+ * arguments.
+ */
+function isSerializableVariable(variable: VariableLike): boolean {
+  if (variable.defs.length !== 1) return false;
+  const [def] = variable.defs as DefinitionLike[];
+  if (def.type !== "Variable" && def.type !== "Parameter") return false;
+  const writes = (variable.references ?? []).filter((ref) =>
+    ref.isWrite?.() === true && ref.init !== true
+  );
+  if (writes.length > 0) return false;
+  if (
+    def.type === "Variable" &&
+    def.parent?.kind === "const" &&
+    def.node.id === def.name &&
+    isJsonLiteral(def.node.init)
+  ) {
+    return true;
+  }
+  const annotation = def.name.typeAnnotation;
+  return def.name.optional !== true &&
+    isNodeLike(annotation) &&
+    isJsonType(annotation.typeAnnotation);
+}
+
 function reportExternalReferences(
   context: Rule.RuleContext,
   functionScope: ScopeLike,
+  globals: ReadonlySet<string>,
+  preset: string,
 ): void {
   const seen = new Map<string, Identifier>();
+  const unavailable = new Map<string, Identifier>();
   const stack: ScopeLike[] = [functionScope];
 
   while (stack.length > 0) {
@@ -116,7 +244,17 @@ function reportExternalReferences(
       }
 
       const resolved = ref.resolved;
-      if (!resolved) {
+      // Undeclared names and configured globals both count as globals; the
+      // environment model decides which exist once the handler is bundled.
+      if (
+        !resolved ||
+        (resolved.scope.type === "global" &&
+          Array.isArray(resolved.defs) &&
+          resolved.defs.length === 0)
+      ) {
+        if (!globals.has(identifier.name) && !unavailable.has(identifier.name)) {
+          unavailable.set(identifier.name, identifier);
+        }
         continue;
       }
 
@@ -126,20 +264,12 @@ function reportExternalReferences(
         continue;
       }
 
-      if (
-        resolvedScope.type === "global" &&
-        Array.isArray(resolved.defs) &&
-        resolved.defs.length === 0
-      ) {
-        continue;
-      }
-
       if (resolvedScope.type === "module") {
         continue;
       }
 
       const name = identifier.name;
-      if (seen.has(name)) {
+      if (seen.has(name) || isSerializableVariable(resolved)) {
         continue;
       }
 
@@ -154,6 +284,14 @@ function reportExternalReferences(
       data: { name },
     });
   }
+
+  for (const [name, identifier] of unavailable) {
+    context.report({
+      node: identifier,
+      messageId: "unavailableGlobal",
+      data: { name, preset },
+    });
+  }
 }
 
 function isInsideOnAttribute(node: FunctionWithParent): boolean {
@@ -200,11 +338,31 @@ const noInvalidInlineClientClosureRule: Rule.RuleModule = {
       description:
         "Prevent inline client handlers from capturing values that will disappear when bundled.",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          preset: { enum: [...ENV_PRESETS] },
+          globals: {
+            type: "object",
+            properties: {
+              add: { type: "array", items: { type: "string" } },
+              remove: { type: "array", items: { type: "string" } },
+            },
+            additionalProperties: false,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
     messages,
   },
   create(context) {
     const sourceCode = context.sourceCode ?? context.getSourceCode();
+    // Same shape as the Rolldown plugin's `env` option.
+    const env: InlineClientEnvOptions = context.options[0] ?? {};
+    const globals = createClientGlobals(env);
+    const preset = env.preset ?? "browser";
 
     return {
       "FunctionExpression, ArrowFunctionExpression"(node: FunctionNode) {
@@ -217,7 +375,7 @@ const noInvalidInlineClientClosureRule: Rule.RuleModule = {
           return;
         }
 
-        reportExternalReferences(context, functionScope);
+        reportExternalReferences(context, functionScope, globals, preset);
       },
     };
   },
@@ -5,10 +5,22 @@
  */
 
 import useClient from "./use-client-rolldown.ts";
-import type { UseClientPluginOptions } from "./use-client-rolldown.ts";
+import type {
+  UseClientManifest,
+  UseClientManifestEntry,
+  UseClientPluginOptions,
+  UseServerManifest,
+  UseServerManifestEntry,
+} from "./use-client-rolldown.ts";
 
 /** Creates the Rolldown plugin that extracts inline `"use client"` handlers. */
 export default useClient;
 
 /** Configuration options for the default `useClient()` export. */
 export type { UseClientPluginOptions };
+
+/** Handler manifest shape, also the default export of `virtual:use-client/manifest`. */
+export type { UseClientManifest, UseClientManifestEntry };
+
+/** Action manifest shape written to `use-server-manifest.json`. */
+export type { UseServerManifest, UseServerManifestEntry };
@@ -0,0 +1,118 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { InlineClientHandlerInfo } from "./inline-client-manifest.ts";
+import type { InlineClientSourceMap } from "./inline-client-sourcemap.ts";
+import packageConfig from "../../deno.json" with { type: "json" };
+
+/** The package version, so a plugin upgrade invalidates the cache. */
+export const PLUGIN_VERSION: string = packageConfig.version;
+
+/** Directive a module was extracted from: `"use client"`, `"use server"` or `"use worker"`. */
+export type InlineModuleKind = "client" | "server" | "worker";
+
+export type InlineClientFileModule = {
+  kind: InlineModuleKind;
+  /** Inline module id, including the prefix for its kind. */
+  id: string;
+  /** Chunk name passed to `emitFile`. */
+  name: string;
+  /** Modules with the same key share one emitted chunk across files. */
+  dedupeKey: string;
+  code: string;
+  map: InlineClientSourceMap | null;
+};
+
+export type InlineClientFileHandler = {
+  /** Source range replaced in the server module. */
+  start: number;
+  end: number;
+  /** Server code placed around the replacement expression. */
+  prefix: string;
+  suffix: string;
+  /** Index into `InlineClientFileResult.modules`. */
+  module: number;
+  exportName: string;
+  info: InlineClientHandlerInfo;
+  imports: string[];
+  /** Captured names the client module export takes as bound arguments. */
+  bound: string[];
+  /** Component rendered on the server inside an island placeholder. */
+  island: boolean;
+  /** Specifier other handlers of the file import this handler through. */
+  reference: string | null;
+};
+
+/** Source edit applied as-is, such as a rewritten import specifier. */
+export type InlineClientFileRewrite = {
+  start: number;
+  end: number;
+  code: string;
+};
+
+/**
+ * Everything extraction derives from one source file. Chunk emission and
+ * replacement expressions are applied afterwards, so this stays valid across
+ * builds.
+ */
+export type InlineClientFileResult = {
+  modules: InlineClientFileModule[];
+  handlers: InlineClientFileHandler[];
+  rewrites: InlineClientFileRewrite[];
+  /** Warnings reported during extraction, replayed on cache hits. */
+  warnings: string[];
+};
+
+export type InlineClientCache = {
+  get(key: string): InlineClientFileResult | null;
+  set(key: string, result: InlineClientFileResult): void;
+};
+
+export function createCacheKey(
+  id: string,
+  code: string,
+  options: Record<string, unknown>,
+): string {
+  return createHash("sha1")
+    .update(JSON.stringify([PLUGIN_VERSION, id, options]))
+    .update("\0")
+    .update(code)
+    .digest("hex");
+}
+
+function isFileResult(value: unknown): value is InlineClientFileResult {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return Array.isArray(record.modules) &&
+    Array.isArray(record.handlers) &&
+    Array.isArray(record.rewrites) &&
+    Array.isArray(record.warnings);
+}
+
+/**
+ * Stores one JSON file per cache key in `dir`. Unreadable or malformed
+ * entries count as misses; writes go through a temporary file so concurrent
+ * builds never read a partial entry.
+ */
+export function createInlineClientCache(dir: string): InlineClientCache {
+  const cacheDir = path.resolve(dir);
+  const getPath = (key: string) => path.join(cacheDir, `${key}.json`);
+  return {
+    get(key) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(readFileSync(getPath(key), "utf8"));
+      } catch {
+        return null;
+      }
+      return isFileResult(parsed) ? parsed : null;
+    },
+    set(key, result) {
+      mkdirSync(cacheDir, { recursive: true });
+      const target = getPath(key);
+      const temporary = `${target}.${randomUUID()}.tmp`;
+      writeFileSync(temporary, JSON.stringify(result));
+      renameSync(temporary, target);
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import { assertEquals, assertExists } from "std/assert";
+import { parseSync } from "@swc/core";
+import { getSerializableCaptures } from "./inline-client-captures.ts";
+import {
+  analyzeScopes,
+  getFreeVariables,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  type SwcNode,
+  type SwcProgram,
+} from "./inline-client-scope.ts";
+
+function parse(code: string): SwcProgram {
+  return parseSync(code, {
+    syntax: "typescript",
+    tsx: true,
+    target: "es2022",
+  }) as unknown as SwcProgram;
+}
+
+function findUseClientFunction(node: unknown): SwcNode | null {
+  if (!isSwcNode(node)) return null;
+  const nodeType = getNodeType(node);
+  if (
+    nodeType === "ArrowFunctionExpression" ||
+    nodeType === "FunctionExpression"
+  ) {
+    const body = isSwcNode(node.body) ? node.body : null;
+    const first = getNodeArray(body?.stmts)[0];
+    const expression = isSwcNode(first?.expression) ? first.expression : null;
+    if (expression?.value === "use client") return node;
+  }
+  for (const value of Object.values(node)) {
+    for (const child of Array.isArray(value) ? value : [value]) {
+      const found = findUseClientFunction(child);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function getHandlerCaptures(code: string) {
+  const program = parse(code);
+  const handler = findUseClientFunction(program);
+  assertExists(handler, "test source should contain a handler");
+  const analysis = analyzeScopes(program);
+  const { captured } = getFreeVariables(analysis, handler);
+  return {
+    captured: [...captured].sort(),
+    bound: getSerializableCaptures(analysis, program, handler, captured)
+      .sort(),
+  };
+}
+
+const cases: Array<{ name: string; code: string; bound: string[] }> = [
+  {
+    name: "const JSON literals are bound",
+    code: `export function C() {
+  const label = "menu";
+  const limits = { min: -1, max: 10, tags: ["a", \`b\`] } as const;
+  const empty = null;
+  return () => {
+    "use client";
+    console.log(label, limits, empty);
+  };
+}`,
+    bound: ["empty", "label", "limits"],
+  },
+  {
+    name: "non-literal initializers are not bound",
+    code: `export function C() {
+  const now = Date.now();
+  const list = [1, , 3];
+  const spread = { ...defaults };
+  const text = \`\${now}\`;
+  return () => {
+    "use client";
+    console.log(now, list, spread, text);
+  };
+}`,
+    bound: [],
+  },
+  {
+    name: "non-finite numbers are not bound",
+    code: `export function C(limit: 1e400) {
+  const huge = 1e400;
+  const negative = -1e400;
+  const missing = NaN;
+  const list = [1, Infinity];
+  return () => {
+    "use client";
+    console.log(limit, huge, negative, missing, list);
+  };
+}`,
+    bound: [],
+  },
+  {
+    name: "annotated parameters are bound",
+    code: `type Props = { id: string; count?: number; tags: readonly string[] };
+export function C({ id, count, tags }: Props, mode: "a" | "b", flag?: boolean) {
+  return () => {
+    "use client";
+    console.log(id, count, tags, mode, flag);
+  };
+}`,
+    bound: ["id", "mode", "tags"],
+  },
+  {
+    name: "defaults fill in optional properties",
+    code: `interface Props { count?: number; label?: string }
+export function C({ count = 0, label: text = "" }: Props) {
+  return () => {
+    "use client";
+    console.log(count, text);
+  };
+}`,
+    bound: ["count", "text"],
+  },
+  {
+    name: "non-JSON types are not bound",
+    code: `interface Base { id: string }
+interface Props extends Base { name: string }
+type Box<T> = { value: T };
+export function C(props: Props, box: Box<string>, at: Date, cb: () => void) {
+  return () => {
+    "use client";
+    console.log(props, box, at, cb);
+  };
+}`,
+    bound: [],
+  },
+  {
+    name: "reassigned bindings are not bound",
+    code: `export function C(count: number, label: string) {
+  let total: number = 0;
+  const fixed = 1;
+  count += 1;
+  ({ label } = { label: "x" });
+  total++;
+  return () => {
+    "use client";
+    console.log(count, label, total, fixed);
+  };
+}`,
+    bound: ["fixed"],
+  },
+  {
+    name: "reads in defaults are not writes",
+    code: `export function C(id: string, other = id) {
+  return () => {
+    "use client";
+    console.log(id, other);
+  };
+}`,
+    bound: ["id"],
+  },
+];
+
+for (const testCase of cases) {
+  Deno.test(`captures: ${testCase.name}`, () => {
+    const { bound } = getHandlerCaptures(testCase.code);
+    assertEquals(bound, testCase.bound);
+  });
+}
+
+Deno.test("captures: bound names are a subset of captured names", () => {
+  const { captured, bound } = getHandlerCaptures(`const top = "x";
+export function C() {
+  const local = "y";
+  return () => {
+    "use client";
+    console.log(top, local);
+  };
+}`);
+  assertEquals(captured, ["local"]);
+  assertEquals(bound, ["local"]);
+});
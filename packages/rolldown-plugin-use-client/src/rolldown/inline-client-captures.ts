@@ -0,0 +1,343 @@
+import {
+  getIdentifierValue,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  type ScopeAnalysis,
+  type ScopeBinding,
+  type SwcNode,
+  type SwcProgram,
+} from "./inline-client-scope.ts";
+
+type TypeDeclarations = Map<string, SwcNode>;
+
+const EXPRESSION_WRAPPERS = new Set([
+  "ParenthesisExpression",
+  "TsAsExpression",
+  "TsConstAssertion",
+  "TsSatisfiesExpression",
+]);
+
+// `number` also admits `NaN` and `Infinity`, which arrive as `null`; only
+// literals are checked to be finite.
+const JSON_KEYWORDS = new Set(["string", "number", "boolean", "null"]);
+
+/** Numeric literals `JSON.stringify` keeps, unlike `1e400`. */
+function isFiniteNumericLiteral(node: unknown): boolean {
+  return isSwcNode(node) && getNodeType(node) === "NumericLiteral" &&
+    Number.isFinite(node.value);
+}
+
+function getTypeAnnotation(node: SwcNode): SwcNode | null {
+  const annotation = isSwcNode(node.typeAnnotation)
+    ? node.typeAnnotation
+    : null;
+  return annotation && isSwcNode(annotation.typeAnnotation)
+    ? annotation.typeAnnotation
+    : null;
+}
+
+function getPropertyName(key: unknown): string | null {
+  if (!isSwcNode(key)) return null;
+  const keyType = getNodeType(key);
+  if (keyType === "Identifier" || keyType === "StringLiteral") {
+    return getIdentifierValue(key);
+  }
+  return null;
+}
+
+/** Top-level type aliases and interfaces, so `Props` can be looked up. */
+function collectTypeDeclarations(program: SwcProgram): TypeDeclarations {
+  const declarations: TypeDeclarations = new Map();
+  for (const stmt of getNodeArray(program.body)) {
+    const target = getNodeType(stmt) === "ExportDeclaration" &&
+        isSwcNode(stmt.declaration)
+      ? stmt.declaration
+      : stmt;
+    const targetType = getNodeType(target);
+    if (
+      targetType !== "TsTypeAliasDeclaration" &&
+      targetType !== "TsInterfaceDeclaration"
+    ) {
+      continue;
+    }
+    const name = getIdentifierValue(isSwcNode(target.id) ? target.id : null);
+    // Generic declarations would need their arguments substituted.
+    if (name && !target.typeParams) declarations.set(name, target);
+  }
+  return declarations;
+}
+
+/** Property signatures of an object type, or `null` if it is not one. */
+function getObjectTypeMembers(
+  type: SwcNode | null,
+  types: TypeDeclarations,
+): SwcNode[] | null {
+  if (!type) return null;
+  const typeType = getNodeType(type);
+  if (typeType === "TsTypeLiteral") return getNodeArray(type.members);
+  if (typeType === "TsParenthesizedType" && isSwcNode(type.typeAnnotation)) {
+    return getObjectTypeMembers(type.typeAnnotation, types);
+  }
+  if (typeType !== "TsTypeReference" || type.typeParams) return null;
+  const name = getIdentifierValue(
+    isSwcNode(type.typeName) ? type.typeName : null,
+  );
+  const declaration = name ? types.get(name) : undefined;
+  if (!declaration) return null;
+  if (getNodeType(declaration) === "TsInterfaceDeclaration") {
+    if (getNodeArray(declaration.extends).length > 0) return null;
+    const body = isSwcNode(declaration.body) ? declaration.body : null;
+    return getNodeArray(body?.body);
+  }
+  return getObjectTypeMembers(
+    isSwcNode(declaration.typeAnnotation) ? declaration.typeAnnotation : null,
+    types,
+  );
+}
+
+function isJsonType(
+  type: unknown,
+  types: TypeDeclarations,
+  seen: Set<string>,
+): boolean {
+  if (!isSwcNode(type)) return false;
+  switch (getNodeType(type)) {
+    case "TsKeywordType":
+      return typeof type.kind === "string" && JSON_KEYWORDS.has(type.kind);
+    case "TsLiteralType": {
+      const literal = isSwcNode(type.literal) ? type.literal : null;
+      const literalType = literal ? getNodeType(literal) : undefined;
+      return literalType === "StringLiteral" ||
+        isFiniteNumericLiteral(literal) ||
+        literalType === "BooleanLiteral";
+    }
+    case "TsUnionType":
+      return getNodeArray(type.types).every((member) =>
+        isJsonType(member, types, seen)
+      );
+    case "TsParenthesizedType":
+    case "TsTypeOperator":
+      return (type.op === undefined || type.op === "readonly") &&
+        isJsonType(type.typeAnnotation, types, seen);
+    case "TsArrayType":
+      return isJsonType(type.elemType, types, seen);
+    case "TsTupleType":
+      return getNodeArray(type.elemTypes).every((element) =>
+        isJsonType(element.ty, types, seen)
+      );
+    case "TsTypeLiteral":
+    case "TsInterfaceBody":
+      return isJsonMembers(
+        getNodeArray(type.members ?? type.body),
+        types,
+        seen,
+      );
+    case "TsTypeReference": {
+      const name = getIdentifierValue(
+        isSwcNode(type.typeName) ? type.typeName : null,
+      );
+      if (!name) return false;
+      const params = isSwcNode(type.typeParams)
+        ? getNodeArray(type.typeParams.params)
+        : [];
+      if (name === "Array" || name === "ReadonlyArray") {
+        return params.length === 1 && isJsonType(params[0], types, seen);
+      }
+      const declaration = types.get(name);
+      if (!declaration || params.length > 0) return false;
+      if (seen.has(name)) return true;
+      seen.add(name);
+      if (getNodeType(declaration) === "TsInterfaceDeclaration") {
+        return getNodeArray(declaration.extends).length === 0 &&
+          isJsonType(declaration.body, types, seen);
+      }
+      return isJsonType(declaration.typeAnnotation, types, seen);
+    }
+    default:
+      return false;
+  }
+}
+
+function isJsonMembers(
+  members: SwcNode[],
+  types: TypeDeclarations,
+  seen: Set<string>,
+) {
+  return members.every((member) =>
+    getNodeType(member) === "TsPropertySignature" &&
+    member.computed !== true &&
+    isJsonType(getTypeAnnotation(member), types, seen)
+  );
+}
+
+/** Literal expressions whose `JSON.parse(JSON.stringify(value))` is equal. */
+function isJsonLiteral(node: unknown): boolean {
+  if (!isSwcNode(node)) return false;
+  const nodeType = getNodeType(node);
+  if (nodeType && EXPRESSION_WRAPPERS.has(nodeType)) {
+    return isJsonLiteral(node.expression);
+  }
+  switch (nodeType) {
+    case "StringLiteral":
+    case "BooleanLiteral":
+    case "NullLiteral":
+      return true;
+    case "NumericLiteral":
+      return isFiniteNumericLiteral(node);
+    case "TemplateLiteral":
+      return getNodeArray(node.expressions).length === 0;
+    case "UnaryExpression":
+      return node.operator === "-" && isFiniteNumericLiteral(node.argument);
+    case "ArrayExpression":
+      return Array.isArray(node.elements) &&
+        node.elements.every((element) =>
+          isSwcNode(element) && !element.spread &&
+          isJsonLiteral(element.expression)
+        );
+    case "ObjectExpression":
+      return getNodeArray(node.properties).every((property) =>
+        getNodeType(property) === "KeyValueProperty" &&
+        (getPropertyName(property.key) !== null ||
+          (isSwcNode(property.key) &&
+            getNodeType(property.key) === "NumericLiteral")) &&
+        isJsonLiteral(property.value)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Type of `target` within the declaring `pattern`, following destructured
+ * properties into the annotated object type. Bindings that may be
+ * `undefined` (optional without a default) have no JSON type.
+ */
+function getBindingType(
+  pattern: unknown,
+  target: SwcNode,
+  inherited: SwcNode | null,
+  types: TypeDeclarations,
+): SwcNode | null | undefined {
+  if (!isSwcNode(pattern)) return undefined;
+  switch (getNodeType(pattern)) {
+    case "Parameter":
+      return getBindingType(pattern.pat, target, inherited, types);
+    case "Identifier":
+      if (pattern !== target) return undefined;
+      return pattern.optional === true
+        ? null
+        : getTypeAnnotation(pattern) ?? inherited;
+    case "AssignmentPattern":
+      return getBindingType(pattern.left, target, inherited, types);
+    case "ObjectPattern": {
+      const members = getObjectTypeMembers(
+        getTypeAnnotation(pattern) ?? inherited,
+        types,
+      );
+      for (const property of getNodeArray(pattern.properties)) {
+        const propertyType = getNodeType(property);
+        const name = getPropertyName(property.key);
+        const member = members?.find((candidate) =>
+          getPropertyName(candidate.key) === name
+        );
+        const memberType = member && !(member.optional === true)
+          ? getTypeAnnotation(member)
+          : null;
+        if (propertyType === "AssignmentPatternProperty") {
+          if (property.key !== target) continue;
+          // A default fills in an optional property.
+          return member && property.value
+            ? getTypeAnnotation(member)
+            : memberType;
+        }
+        if (propertyType === "KeyValuePatternProperty") {
+          const value = isSwcNode(property.value) ? property.value : null;
+          const hasDefault = value &&
+            getNodeType(value) === "AssignmentPattern";
+          const type = getBindingType(
+            value,
+            target,
+            member && hasDefault ? getTypeAnnotation(member) : memberType,
+            types,
+          );
+          if (type !== undefined) return type;
+        }
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Whether `node` is written to by its `parent` assignment or pattern. */
+export function isWriteTarget(node: SwcNode, parent: SwcNode) {
+  switch (getNodeType(parent)) {
+    case "AssignmentExpression":
+    case "AssignmentPattern":
+      return parent.left === node;
+    case "AssignmentPatternProperty":
+      return parent.key === node;
+    case "KeyValuePatternProperty":
+      return parent.value === node;
+    case "UpdateExpression":
+    case "ObjectPattern":
+    case "ArrayPattern":
+    case "RestElement":
+      return true;
+    default:
+      return false;
+  }
+}
+
+function isReassigned(analysis: ScopeAnalysis, binding: ScopeBinding) {
+  return analysis.references.some((reference) =>
+    reference.binding === binding &&
+    reference.parent !== null &&
+    isWriteTarget(reference.node, reference.parent)
+  );
+}
+
+function isSerializableBinding(
+  analysis: ScopeAnalysis,
+  binding: ScopeBinding,
+  types: TypeDeclarations,
+) {
+  const { declarator } = binding;
+  if (!declarator) return false;
+  if (isReassigned(analysis, binding)) return false;
+  if (
+    binding.kind === "const" &&
+    declarator.id === binding.node &&
+    isJsonLiteral(declarator.init)
+  ) {
+    return true;
+  }
+  const pattern = getNodeType(declarator) === "VariableDeclarator"
+    ? declarator.id
+    : declarator;
+  const type = getBindingType(pattern, binding.node, null, types);
+  return isJsonType(type, types, new Set());
+}
+
+/**
+ * Captured names of `node` whose values are provably JSON-serializable: an
+ * enclosing `const` initialized with a JSON literal, or a variable or
+ * parameter annotated with a JSON-compatible type, that is never reassigned.
+ * The order follows `captured`.
+ */
+export function getSerializableCaptures(
+  analysis: ScopeAnalysis,
+  program: SwcProgram,
+  node: SwcNode,
+  captured: Iterable<string>,
+): string[] {
+  const scope = analysis.getScope(node);
+  if (!scope) return [];
+  const types = collectTypeDeclarations(program);
+  return [...captured].filter((name) => {
+    const binding = analysis.resolve(name, scope);
+    return binding !== null && isSerializableBinding(analysis, binding, types);
+  });
+}
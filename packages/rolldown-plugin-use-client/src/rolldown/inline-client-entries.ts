@@ -0,0 +1,55 @@
+import { createHash } from "node:crypto";
+import { INLINE_ID_PREFIX } from "./inline-client-registry.ts";
+
+/** Query that marks an inline client id as the client chunk of an entry. */
+export const ENTRY_CLIENT_QUERY = "?use-client-entry";
+// Stands in for the reference id of an entry's client chunk, which is only
+// known once the module graph is complete.
+const ENTRY_REF_PREFIX = "entry$";
+
+/** Client module of one source file under `granularity: "entry"`. */
+export type EntryClientFile = {
+  moduleId: string;
+  /** Short hash of the source file that suffixes its export names. */
+  key: string;
+  exportNames: string[];
+};
+
+/** Inline client id of the client chunk that `entry` reaches. */
+export function createEntryClientModuleId(entry: string): string {
+  return `${INLINE_ID_PREFIX}${entry}${ENTRY_CLIENT_QUERY}`;
+}
+
+export function getEntryFileKey(source: string): string {
+  return createHash("sha1").update(source).digest("hex").slice(0, 8);
+}
+
+/** Export of the entry chunk a file's `exportName` is re-exported as. */
+export function getEntryExportName(exportName: string, key: string): string {
+  return `${exportName}_${key}`;
+}
+
+export function createEntryRefPlaceholder(key: string): string {
+  return `${ENTRY_REF_PREFIX}${key}`;
+}
+
+/** File key of a reference id from `createEntryRefPlaceholder`, or `null`. */
+export function parseEntryRefPlaceholder(refId: string): string | null {
+  return refId.startsWith(ENTRY_REF_PREFIX)
+    ? refId.slice(ENTRY_REF_PREFIX.length)
+    : null;
+}
+
+/** Entry chunk module that re-exports the handlers of `files`. */
+export function createEntryClientSource(files: EntryClientFile[]): string {
+  const lines = [...files]
+    .sort((a, b) => a.moduleId < b.moduleId ? -1 : 1)
+    .map(({ moduleId, key, exportNames }) =>
+      `export { ${
+        exportNames.map((exportName) =>
+          `${exportName} as ${getEntryExportName(exportName, key)}`
+        ).join(", ")
+      } } from ${JSON.stringify(moduleId)};`
+    );
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "export {};\n";
+}
@@ -0,0 +1,107 @@
+import { assertEquals } from "std/assert";
+import { parseSync } from "@swc/core";
+import {
+  createClientEnvPolicy,
+  findEnvUsage,
+  getPublicEnvReplacement,
+} from "./inline-client-env-access.ts";
+import { analyzeScopes, type SwcProgram } from "./inline-client-scope.ts";
+
+const policy = createClientEnvPolicy({}, {
+  PUBLIC_API_URL: "https://api.example.com",
+  API_TOKEN: "tok_0123456789",
+  HOME: "/home/user",
+  SHORT_SECRET: "abc",
+});
+
+function getUsage(code: string) {
+  const program = parseSync(code, {
+    syntax: "typescript",
+    target: "es2022",
+  }) as unknown as SwcProgram;
+  const globals = new Set(
+    analyzeScopes(program).references.flatMap((reference) =>
+      reference.binding === null ? [reference.node] : []
+    ),
+  );
+  const usage = findEnvUsage(
+    program,
+    policy,
+    (identifier) => globals.has(identifier),
+  );
+  return {
+    accesses: usage.accesses.map(({ name, description, root }) => ({
+      name,
+      description,
+      global: root !== null,
+    })),
+    secrets: usage.secrets,
+  };
+}
+
+Deno.test("env usage: static reads of each runtime", () => {
+  assertEquals(
+    getUsage(
+      `process.env.PUBLIC_API_URL; process.env["API_TOKEN"];
+import.meta.env.MODE; Deno.env.get("HOME");`,
+    ).accesses,
+    [
+      {
+        name: "PUBLIC_API_URL",
+        description: "process.env.PUBLIC_API_URL",
+        global: true,
+      },
+      {
+        name: "API_TOKEN",
+        description: "process.env.API_TOKEN",
+        global: true,
+      },
+      { name: "MODE", description: "import.meta.env.MODE", global: false },
+      { name: "HOME", description: 'Deno.env.get("HOME")', global: true },
+    ],
+  );
+});
+
+Deno.test("env usage: dynamic reads and writes have no name", () => {
+  assertEquals(
+    getUsage(
+      `process.env[key]; const { A } = import.meta.env; Deno.env.toObject();
+process.env.PUBLIC_API_URL = "x";`,
+    ).accesses.map(({ name, description }) => [name, description]),
+    [
+      [null, "process.env[...]"],
+      [null, "import.meta.env"],
+      [null, "Deno.env.toObject"],
+      [null, "assignment to process.env.PUBLIC_API_URL"],
+    ],
+  );
+});
+
+Deno.test("env usage: local bindings named process are not env reads", () => {
+  assertEquals(
+    getUsage(`const process = { env: {} }; process.env.API_TOKEN;`).accesses,
+    [],
+  );
+});
+
+Deno.test("env usage: string literals with secret values", () => {
+  assertEquals(
+    getUsage(
+      `const headers = { authorization: "Bearer tok_0123456789" };
+const home = "/home/user"; const short = \`abc\`;`,
+    ).secrets,
+    ["API_TOKEN"],
+  );
+});
+
+Deno.test("public env replacements are build-time literals", () => {
+  assertEquals(
+    [
+      getPublicEnvReplacement(policy, "PUBLIC_API_URL"),
+      getPublicEnvReplacement(policy, "PUBLIC_MISSING"),
+      getPublicEnvReplacement(policy, "API_TOKEN"),
+      getPublicEnvReplacement(policy, "NODE_ENV"),
+    ],
+    ['"https://api.example.com"', "undefined", null, "undefined"],
+  );
+});
@@ -0,0 +1,215 @@
+import { isWriteTarget } from "./inline-client-captures.ts";
+import {
+  getIdentifierValue,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  type SwcNode,
+} from "./inline-client-scope.ts";
+
+/** Prefix of the variables client and worker chunks may read by default. */
+export const DEFAULT_PUBLIC_ENV_PREFIX = "PUBLIC_";
+
+// Non-public variables whose values are looked for in copied string literals.
+const SECRET_NAME_PATTERN =
+  /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|AUTH/i;
+const MIN_SECRET_LENGTH = 8;
+
+/** Variables that are public regardless of the prefix. */
+export const PUBLIC_ENV_NAMES: readonly string[] = ["NODE_ENV"];
+
+export type InlineClientEnvAccessOptions = {
+  /** Variables starting with this prefix are public. Defaults to `PUBLIC_`. */
+  publicPrefix?: string;
+  /** Values public variables are replaced with. Defaults to `process.env`. */
+  values?: Record<string, string | undefined>;
+};
+
+export type ClientEnvPolicy = {
+  publicPrefix: string;
+  values: Record<string, string | undefined>;
+  /** Secret values mapped to the variable that holds them. */
+  secrets: ReadonlyMap<string, string>;
+};
+
+export function createClientEnvPolicy(
+  options: InlineClientEnvAccessOptions,
+  defaultValues: Record<string, string | undefined>,
+): ClientEnvPolicy {
+  const publicPrefix = options.publicPrefix ?? DEFAULT_PUBLIC_ENV_PREFIX;
+  const values = options.values ?? defaultValues;
+  const secrets = new Map<string, string>();
+  for (const [name, value] of Object.entries(values)) {
+    if (
+      value !== undefined && value.length >= MIN_SECRET_LENGTH &&
+      !name.startsWith(publicPrefix) && !PUBLIC_ENV_NAMES.includes(name) &&
+      SECRET_NAME_PATTERN.test(name)
+    ) {
+      secrets.set(value, name);
+    }
+  }
+  return { publicPrefix, values, secrets };
+}
+
+/**
+ * Build-time value of a public variable as a JavaScript expression, or `null`
+ * when `name` is not public.
+ */
+export function getPublicEnvReplacement(
+  policy: ClientEnvPolicy,
+  name: string,
+): string | null {
+  if (
+    !name.startsWith(policy.publicPrefix) && !PUBLIC_ENV_NAMES.includes(name)
+  ) {
+    return null;
+  }
+  const value = policy.values[name];
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+export type EnvAccess = {
+  /** Expression that reads the variable, such as `process.env.API_URL`. */
+  node: SwcNode;
+  /** `process` or `Deno` identifier the access starts from. */
+  root: SwcNode | null;
+  /** Variable name, or `null` when it is dynamic or the access is a write. */
+  name: string | null;
+  /** Source form of the access for messages. */
+  description: string;
+};
+
+export type EnvUsage = {
+  accesses: EnvAccess[];
+  /** Secret variables whose values appear in string literals. */
+  secrets: string[];
+};
+
+type EnvObject = { root: SwcNode | null; source: string };
+
+/** `process.env`, `Deno.env` or `import.meta.env`, otherwise `null`. */
+function getEnvObject(
+  node: SwcNode,
+  isGlobal: (identifier: SwcNode) => boolean,
+): EnvObject | null {
+  if (getNodeType(node) !== "MemberExpression") return null;
+  const property = isSwcNode(node.property) ? node.property : null;
+  if (
+    !property || getNodeType(property) !== "Identifier" ||
+    getIdentifierValue(property) !== "env"
+  ) {
+    return null;
+  }
+  const object = isSwcNode(node.object) ? node.object : null;
+  if (!object) return null;
+  if (getNodeType(object) === "MetaProperty") {
+    return object.kind === "import.meta"
+      ? { root: null, source: "import.meta.env" }
+      : null;
+  }
+  const name = getNodeType(object) === "Identifier"
+    ? getIdentifierValue(object)
+    : null;
+  return (name === "process" || name === "Deno") && isGlobal(object)
+    ? { root: object, source: `${name}.env` }
+    : null;
+}
+
+function getStaticKey(node: SwcNode): string | null {
+  const property = isSwcNode(node.property) ? node.property : null;
+  if (!property) return null;
+  if (getNodeType(property) === "Identifier") {
+    return getIdentifierValue(property);
+  }
+  const expression = getNodeType(property) === "Computed" &&
+      isSwcNode(property.expression)
+    ? property.expression
+    : null;
+  return expression && getNodeType(expression) === "StringLiteral" &&
+      typeof expression.value === "string"
+    ? expression.value
+    : null;
+}
+
+/**
+ * Environment reads inside `root` and string literals that contain secret
+ * values. `isGlobal` tells whether a `process` or `Deno` identifier refers to
+ * the global rather than a local binding.
+ */
+export function findEnvUsage(
+  root: SwcNode,
+  policy: ClientEnvPolicy,
+  isGlobal: (identifier: SwcNode) => boolean,
+): EnvUsage {
+  const accesses: EnvAccess[] = [];
+  const secrets = new Set<string>();
+  const checkLiteral = (value: unknown) => {
+    if (typeof value !== "string") return;
+    for (const [secret, name] of policy.secrets) {
+      if (value.includes(secret)) secrets.add(name);
+    }
+  };
+  const visit = (value: unknown, parent: SwcNode | null) => {
+    if (Array.isArray(value)) {
+      for (const item of value) visit(item, parent);
+      return;
+    }
+    if (!isSwcNode(value)) return;
+    const nodeType = getNodeType(value);
+    if (nodeType === "StringLiteral") checkLiteral(value.value);
+    if (nodeType === "TemplateElement") checkLiteral(value.cooked);
+    if (nodeType === "CallExpression" && isSwcNode(value.callee)) {
+      const callee = value.callee;
+      const env = isSwcNode(callee.object)
+        ? getEnvObject(callee.object, isGlobal)
+        : null;
+      if (env?.source === "Deno.env" && getStaticKey(callee) === "get") {
+        const argument = getNodeArray(value.arguments)[0]?.expression;
+        const name = isSwcNode(argument) &&
+            getNodeType(argument) === "StringLiteral" &&
+            typeof argument.value === "string"
+          ? argument.value
+          : null;
+        accesses.push({
+          node: value,
+          root: env.root,
+          name,
+          description: name === null
+            ? "Deno.env.get(...)"
+            : `Deno.env.get(${JSON.stringify(name)})`,
+        });
+        return;
+      }
+    }
+    if (nodeType === "MemberExpression" && isSwcNode(value.object)) {
+      const env = getEnvObject(value.object, isGlobal);
+      if (env) {
+        const key = getStaticKey(value);
+        const description = key === null
+          ? `${env.source}[...]`
+          : `${env.source}.${key}`;
+        const written = parent !== null && isWriteTarget(value, parent);
+        accesses.push({
+          node: value,
+          root: env.root,
+          name: env.source === "Deno.env" || written ? null : key,
+          description: written ? `assignment to ${description}` : description,
+        });
+        return;
+      }
+    }
+    const env = getEnvObject(value, isGlobal);
+    if (env) {
+      accesses.push({
+        node: value,
+        root: env.root,
+        name: null,
+        description: env.source,
+      });
+      return;
+    }
+    for (const child of Object.values(value)) visit(child, value);
+  };
+  visit(root, null);
+  return { accesses, secrets: [...secrets].sort() };
+}
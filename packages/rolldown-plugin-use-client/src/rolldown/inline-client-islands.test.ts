@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "std/assert";
+import { createIslandWrapper } from "./inline-client-islands.ts";
+
+// Evaluates the `props` attribute the wrapper renders for `props`.
+function encodeProps(props: Record<string, unknown>): string {
+  const { suffix } = createIslandWrapper("Counter", "Counter");
+  const expression = suffix.match(/props=\{(.*)\}>\{render/)?.[1];
+  if (!expression) throw new Error("wrapper should render a props attribute");
+  return new Function("props", `return ${expression};`)(props);
+}
+
+Deno.test("island props: JSON values are encoded without children", () => {
+  assertEquals(
+    encodeProps({
+      start: 1,
+      label: "count",
+      tags: ["a", { nested: null }],
+      children: "text",
+    }),
+    '{"start":1,"label":"count","tags":["a",{"nested":null}]}',
+  );
+});
+
+Deno.test("island props: values JSON would drop or change are rejected", () => {
+  for (
+    const [value, kind] of [
+      [() => {}, "function"],
+      [Symbol("id"), "symbol"],
+      [new Date(0), "Date"],
+      [new Map(), "Map"],
+      [{ when: new Date(0) }, "Date"],
+    ] as const
+  ) {
+    assertThrows(
+      () => encodeProps({ value }),
+      TypeError,
+      `island Counter received a prop that is not a JSON value: "`,
+    );
+    assertThrows(() => encodeProps({ value }), TypeError, `(${kind})`);
+  }
+});
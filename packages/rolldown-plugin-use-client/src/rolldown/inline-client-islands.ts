@@ -0,0 +1,64 @@
+import { getNodeType, isSwcNode, type SwcNode } from "./inline-client-scope.ts";
+
+/** Element the server renders around an island's markup. */
+export const ISLAND_TAG_NAME = "use-client-island";
+
+function containsJsx(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsJsx);
+  if (!isSwcNode(value)) return false;
+  const nodeType = getNodeType(value);
+  if (nodeType === "JSXElement" || nodeType === "JSXFragment") return true;
+  return Object.values(value).some(containsJsx);
+}
+
+/**
+ * A `"use client"` function is an island when it is bound to a component name
+ * (`Counter`, not `counter`) and renders JSX.
+ */
+export function isIslandComponent(
+  node: SwcNode,
+  binding: string | null,
+): boolean {
+  return binding !== null && /^[A-Z]/.test(binding) && containsJsx(node.body);
+}
+
+/**
+ * `JSON.stringify` replacer that throws on values it would drop or turn into
+ * something else: functions, symbols, and objects other than plain objects
+ * and arrays, such as dates, maps, or class instances.
+ */
+function createPropsReplacer(name: string): string {
+  const message = JSON.stringify(
+    `[use-client] island ${name} received a prop that is not a JSON value: `,
+  );
+  // One line, so the server module keeps its line numbers.
+  return [
+    "function (key, value) {",
+    "const prop = this[key], type = typeof prop;",
+    'const prototype = prop !== null && type === "object" ? Object.getPrototypeOf(prop) : null;',
+    'if (type === "function" || type === "symbol" || (prototype !== null && prototype !== Object.prototype && !Array.isArray(prop))) {',
+    `throw new TypeError(${message} + JSON.stringify(key) + " (" + (prototype?.constructor?.name ?? type) + ")");`,
+    "}",
+    "return value;",
+    "}",
+  ].join(" ");
+}
+
+/**
+ * Server code placed around the island's URL expression. The component still
+ * renders on the server, inside a placeholder that records the chunk URL and
+ * the JSON props (without `children`) for the client runtime to mount. Props
+ * that would not survive JSON encoding throw while rendering, naming the
+ * component `name`.
+ */
+export function createIslandWrapper(
+  componentSource: string,
+  name: string,
+): { prefix: string; suffix: string } {
+  return {
+    prefix: `((render) => (props) => <${ISLAND_TAG_NAME} src={`,
+    suffix: `} props={JSON.stringify({ ...props, children: undefined }, ${
+      createPropsReplacer(name)
+    })}>{render(props)}</${ISLAND_TAG_NAME}>)(${componentSource})`,
+  };
+}
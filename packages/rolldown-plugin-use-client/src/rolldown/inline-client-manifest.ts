@@ -0,0 +1,87 @@
+export const MANIFEST_MODULE_ID = "virtual:use-client/manifest";
+export const RESOLVED_MANIFEST_MODULE_ID = "\0inline-client-manifest";
+export const MANIFEST_PLACEHOLDER = "__INLINE_CLIENT_MANIFEST__";
+export const DEFAULT_MANIFEST_FILE_NAME = "use-client-manifest.json";
+
+export type InlineClientHandlerInfo = {
+  /** Absolute path of the module that declared the handler. */
+  source: string;
+  /** 1-based line of the handler in `source`. */
+  line: number;
+  /** 0-based column of the handler in `source`. */
+  column: number;
+  /** Binding the handler was declared or assigned to, if any. */
+  binding: string | null;
+};
+
+export type InlineClientManifestEntry = InlineClientHandlerInfo & {
+  /** Emitted client chunk file name. */
+  file: string;
+  /** Export of `file` that holds the handler. */
+  exportName: string;
+  /** Import specifiers copied into the client module. */
+  imports: string[];
+  /** Chunk file names the client chunk statically imports, transitively. */
+  chunkImports: string[];
+  /** Whether the export is an island component to mount into placeholders. */
+  island: boolean;
+};
+
+export type InlineClientManifest = {
+  handlers: InlineClientManifestEntry[];
+};
+
+export type InlineClientManifestRecord =
+  & Omit<InlineClientManifestEntry, "file" | "chunkImports">
+  & { refId: string };
+
+type ChunkGraph = Record<string, { imports: string[] } | { type: "asset" }>;
+
+function collectStaticImports(fileName: string, chunks: ChunkGraph) {
+  const seen = new Set<string>();
+  const pending = [fileName];
+  while (pending.length > 0) {
+    const next = pending.pop();
+    if (next === undefined) continue;
+    const chunk = chunks[next];
+    if (!chunk || !("imports" in chunk)) continue;
+    for (const imported of chunk.imports) {
+      if (seen.has(imported) || imported === fileName) continue;
+      seen.add(imported);
+      pending.push(imported);
+    }
+  }
+  return [...seen].sort();
+}
+
+export function createInlineClientManifest(
+  records: Iterable<InlineClientManifestRecord>,
+  getFileName: (refId: string) => string,
+  chunks: ChunkGraph,
+): InlineClientManifest {
+  const handlers: InlineClientManifestEntry[] = [];
+  for (const { refId, ...record } of records) {
+    const file = getFileName(refId);
+    handlers.push({
+      ...record,
+      file,
+      chunkImports: collectStaticImports(file, chunks),
+    });
+  }
+  handlers.sort((a, b) =>
+    a.source === b.source
+      ? a.line - b.line || a.column - b.column
+      : a.source < b.source
+      ? -1
+      : 1
+  );
+  return { handlers };
+}
+
+export function getManifestFileName(
+  option: boolean | { fileName?: string } | undefined,
+): string | null {
+  if (!option) return null;
+  if (option === true) return DEFAULT_MANIFEST_FILE_NAME;
+  return option.fileName ?? DEFAULT_MANIFEST_FILE_NAME;
+}
@@ -0,0 +1,54 @@
+import { assertEquals } from "std/assert";
+import { parseSync } from "@swc/core";
+import {
+  getExportNames,
+  getModuleDirectives,
+  getModuleType,
+} from "./inline-client-modules.ts";
+import type { SwcProgram } from "./inline-client-scope.ts";
+
+Deno.test("module directives: prologue after comments and other directives", () => {
+  assertEquals(
+    getModuleDirectives(`\uFEFF// widget
+/* client only */
+"use strict";
+'use client'
+export default () => {};`),
+    ["use strict", "use client"],
+  );
+});
+
+Deno.test("module directives: strings used as expressions are not directives", () => {
+  assertEquals(getModuleDirectives(`"use client" + suffix;`), []);
+  assertEquals(getModuleDirectives(`import "./a.ts";\n"use client";`), []);
+});
+
+Deno.test("module type follows the file extension", () => {
+  assertEquals(
+    ["a.tsx", "a.mts", "a.jsx", "a.cjs"].map(getModuleType),
+    ["tsx", "ts", "jsx", "js"],
+  );
+});
+
+Deno.test("export names cover declarations, specifiers and defaults", () => {
+  const program = parseSync(
+    `export const open = () => {}, { close } = actions;
+export function toggle() {}
+export enum Mode { On }
+export declare const ambient: string;
+export type Props = {};
+export { helper as "help-me", type Shape };
+export * as icons from "./icons.ts";
+export default toggle;`,
+    { syntax: "typescript", target: "es2022" },
+  ) as unknown as SwcProgram;
+  assertEquals(getExportNames(program), [
+    "open",
+    "close",
+    "toggle",
+    "Mode",
+    "help-me",
+    "icons",
+    "default",
+  ]);
+});
@@ -0,0 +1,143 @@
+import { INLINE_ID_PREFIX } from "./inline-client-registry.ts";
+import {
+  collectDeclaredFromPattern,
+  getIdentifierValue,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  type SwcNode,
+  type SwcProgram,
+} from "./inline-client-scope.ts";
+
+/** Query that marks an inline client id as a whole `"use client"` file. */
+export const CLIENT_MODULE_QUERY = "?use-client-module";
+/**
+ * Query that replaces `with { type: "client" }` on an import specifier, since
+ * import attributes do not reach `resolveId`.
+ */
+export const CLIENT_URL_QUERY = "?use-client-url";
+/** Prefix of the server-side module that exports a file's client URLs. */
+export const CLIENT_URL_ID_PREFIX = "\0use-client-url:";
+
+const SOURCE_FILE_PATTERN = /\.[cm]?[jt]sx?$/i;
+const CLIENT_ATTRIBUTE_PATTERN = /\bwith\s*\{[^}]*\btype\s*:\s*(["'])client\1/;
+
+/** Inline client id that loads `file` from disk as a client entry. */
+export function createClientModuleId(file: string): string {
+  return `${INLINE_ID_PREFIX}${file}${CLIENT_MODULE_QUERY}`;
+}
+
+export function isClientModuleId(id: string): boolean {
+  return id.startsWith(INLINE_ID_PREFIX) && id.endsWith(CLIENT_MODULE_QUERY);
+}
+
+export function isSourceFile(file: string): boolean {
+  return SOURCE_FILE_PATTERN.test(file);
+}
+
+export function getModuleType(file: string): "js" | "jsx" | "ts" | "tsx" {
+  const extension = file.slice(file.lastIndexOf(".") + 1).toLowerCase();
+  if (extension === "tsx" || extension === "jsx") return extension;
+  return extension.endsWith("ts") ? "ts" : "js";
+}
+
+/**
+ * Directives of the module prologue, such as `["use strict", "use client"]`.
+ * Only whitespace, comments and other directives may precede a directive.
+ */
+export function getModuleDirectives(code: string): string[] {
+  const directives: string[] = [];
+  let index = code.charCodeAt(0) === 0xfeff ? 1 : 0;
+  while (index < code.length) {
+    const char = code[index];
+    if (/\s/.test(char) || char === ";") {
+      index += 1;
+    } else if (code.startsWith("//", index)) {
+      const end = code.indexOf("\n", index);
+      index = end === -1 ? code.length : end + 1;
+    } else if (code.startsWith("/*", index)) {
+      const end = code.indexOf("*/", index + 2);
+      if (end === -1) break;
+      index = end + 2;
+    } else if (char === '"' || char === "'") {
+      const end = code.indexOf(char, index + 1);
+      if (end === -1) break;
+      const value = code.slice(index + 1, end);
+      if (/[\\\n]/.test(value)) break;
+      // `"use client" + suffix` is an expression, not a directive.
+      const next = /^[ \t]*(.?)/.exec(code.slice(end + 1, end + 80))?.[1];
+      if (next && !/[;\r\n/]/.test(next)) break;
+      directives.push(value);
+      index = end + 1;
+    } else {
+      break;
+    }
+  }
+  return directives;
+}
+
+export function maybeContainsClientImportAttribute(code: string): boolean {
+  return CLIENT_ATTRIBUTE_PATTERN.test(code);
+}
+
+/** Whether an import declaration is written `with { type: "client" }`. */
+export function hasClientImportAttribute(stmt: SwcNode): boolean {
+  const attributes = isSwcNode(stmt.with) ? stmt.with : null;
+  return getNodeArray(attributes?.properties).some((property) =>
+    getNodeType(property) === "KeyValueProperty" &&
+    isSwcNode(property.key) &&
+    getIdentifierValue(property.key) === "type" &&
+    isSwcNode(property.value) &&
+    getIdentifierValue(property.value) === "client"
+  );
+}
+
+/**
+ * Value exports of a module. `export * from` is not followed, so names it
+ * re-exports are missing.
+ */
+export function getExportNames(program: SwcProgram): string[] {
+  const names = new Set<string>();
+  for (const stmt of getNodeArray(program.body)) {
+    switch (getNodeType(stmt)) {
+      case "ExportDefaultDeclaration":
+      case "ExportDefaultExpression":
+        names.add("default");
+        break;
+      case "ExportDeclaration": {
+        const decl = isSwcNode(stmt.declaration) ? stmt.declaration : null;
+        if (!decl || decl.declare === true) break;
+        const declType = getNodeType(decl);
+        if (declType === "VariableDeclaration") {
+          for (const declarator of getNodeArray(decl.declarations)) {
+            collectDeclaredFromPattern(declarator.id, names);
+          }
+        } else if (
+          declType === "FunctionDeclaration" ||
+          declType === "ClassDeclaration" ||
+          declType === "TsEnumDeclaration"
+        ) {
+          const identifier = decl.identifier ?? decl.id;
+          const name = getIdentifierValue(
+            isSwcNode(identifier) ? identifier : null,
+          );
+          if (name) names.add(name);
+        }
+        break;
+      }
+      case "ExportNamedDeclaration": {
+        if (stmt.typeOnly === true) break;
+        for (const spec of getNodeArray(stmt.specifiers)) {
+          if (spec.isTypeOnly === true) continue;
+          const exported = spec.exported ?? spec.name ?? spec.orig;
+          const name = getIdentifierValue(
+            isSwcNode(exported) ? exported : null,
+          );
+          if (name) names.add(name);
+        }
+        break;
+      }
+    }
+  }
+  return [...names];
+}
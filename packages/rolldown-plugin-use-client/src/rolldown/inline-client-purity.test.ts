@@ -0,0 +1,88 @@
+import { assertEquals } from "std/assert";
+import { parseSync } from "@swc/core";
+import {
+  DEFAULT_PURE_CALLEES,
+  findDeclarationSideEffect,
+  hasPureAnnotation,
+  type PurityContext,
+} from "./inline-client-purity.ts";
+import { getNodeArray, type SwcProgram } from "./inline-client-scope.ts";
+
+function getSideEffect(code: string, pure: string[] = []) {
+  const source = `import { config } from "./config.ts";\n${code}`;
+  const program = parseSync(source, {
+    syntax: "typescript",
+    tsx: true,
+    target: "es2022",
+  }) as unknown as SwcProgram;
+  const offset = program.span?.start ?? 0;
+  const context: PurityContext = {
+    isImport: (name) => name === "config",
+    isAnnotatedPure: (node) =>
+      hasPureAnnotation(source, (node.span?.start ?? 0) - offset),
+    pure: new Set([...DEFAULT_PURE_CALLEES, ...pure]),
+  };
+  return findDeclarationSideEffect(getNodeArray(program.body)[1], context);
+}
+
+const cases: Array<{ code: string; effect: string | null; pure?: string[] }> = [
+  {
+    code: `const value = { a: [1, "b", null], b: \`x\${1}\`, c: -1 } as const;`,
+    effect: null,
+  },
+  { code: "const handler = () => fetch('/api');", effect: null },
+  { code: "function helper() { return init(); }", effect: null },
+  { code: "const cache = new Map<string, number>();", effect: null },
+  { code: "const ready = /* @__PURE__ */ init();", effect: null },
+  { code: "const ready = /* #__PURE__ */ new Pool();", effect: null },
+  { code: "const log = initLogger();", effect: "call to initLogger" },
+  { code: "const pool = new db.Pool();", effect: "new db.Pool" },
+  {
+    code: "const url = config.url;",
+    effect: 'member access on import "config"',
+  },
+  {
+    code: "const { url } = config;",
+    effect: 'member access on import "config"',
+  },
+  {
+    code: "const items = [1, ...load()];",
+    effect: "call to load",
+  },
+  {
+    code: "const ctx = createContext({ theme: config.theme });",
+    effect: 'member access on import "config"',
+    pure: ["createContext"],
+  },
+  {
+    code: "class Store { static instance = new Store(); }",
+    effect: "new Store",
+  },
+  { code: "class Store extends Base { items = load(); }", effect: null },
+  { code: "let count = total++;", effect: "UpdateExpression" },
+];
+
+for (const testCase of cases) {
+  Deno.test(`purity: ${testCase.code}`, () => {
+    assertEquals(getSideEffect(testCase.code, testCase.pure), testCase.effect);
+  });
+}
+
+Deno.test("purity: declarators are checked on their own", () => {
+  const program = parseSync(
+    `import { config } from "./config.ts";
+const label = "a", pool = createPool(), { url } = config;`,
+    { syntax: "typescript", target: "es2022" },
+  ) as unknown as SwcProgram;
+  const context: PurityContext = {
+    isImport: (name) => name === "config",
+    isAnnotatedPure: () => false,
+    pure: new Set(DEFAULT_PURE_CALLEES),
+  };
+  assertEquals(
+    getNodeArray(getNodeArray(program.body)[1].declarations).map((
+      declarator,
+    ) => findDeclarationSideEffect(declarator, context)),
+    [null, "call to createPool", 'member access on import "config"'],
+  );
+});
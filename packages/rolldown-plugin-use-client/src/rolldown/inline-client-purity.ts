@@ -0,0 +1,257 @@
+import {
+  getIdentifierValue,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  type SwcNode,
+} from "./inline-client-scope.ts";
+
+/** Callees that are treated as side-effect free without an annotation. */
+export const DEFAULT_PURE_CALLEES = [
+  "Map",
+  "Set",
+  "WeakMap",
+  "WeakSet",
+  "Symbol",
+  "Symbol.for",
+  "Object.create",
+  "Object.freeze",
+  "RegExp",
+];
+
+const PURE_ANNOTATION_PATTERN = /\/\*\s*[#@]__PURE__\s*\*\/\s*$/;
+
+/** Whether a `@__PURE__` or `#__PURE__` comment ends right before `index`. */
+export function hasPureAnnotation(code: string, index: number): boolean {
+  return PURE_ANNOTATION_PATTERN.test(
+    code.slice(Math.max(0, index - 100), index),
+  );
+}
+
+export type PurityContext = {
+  /** Whether `name` is bound by an import of the module. */
+  isImport(name: string): boolean;
+  /** Whether the call or `new` expression carries a `@__PURE__` comment. */
+  isAnnotatedPure(node: SwcNode): boolean;
+  /** Dotted callee names, such as `createContext` or `Object.freeze`. */
+  pure: Set<string>;
+};
+
+const TRANSPARENT_WRAPPERS = new Set([
+  "ParenthesisExpression",
+  "TsAsExpression",
+  "TsSatisfiesExpression",
+  "TsConstAssertion",
+  "TsNonNullExpression",
+  "TsTypeAssertion",
+  "TsInstantiation",
+]);
+
+const PURE_NODES = new Set([
+  "StringLiteral",
+  "NumericLiteral",
+  "BooleanLiteral",
+  "NullLiteral",
+  "BigIntLiteral",
+  "RegExpLiteral",
+  "Identifier",
+  "ThisExpression",
+  "MetaProperty",
+  "ArrowFunctionExpression",
+  "FunctionExpression",
+  "JSXElement",
+  "JSXFragment",
+]);
+
+/** `Object.freeze` for a member chain of identifiers, otherwise `null`. */
+function getDottedName(node: SwcNode): string | null {
+  const nodeType = getNodeType(node);
+  if (nodeType === "Identifier") return getIdentifierValue(node);
+  if (nodeType !== "MemberExpression") return null;
+  const object = isSwcNode(node.object) ? getDottedName(node.object) : null;
+  const property = isSwcNode(node.property) &&
+      getNodeType(node.property) === "Identifier"
+    ? getIdentifierValue(node.property)
+    : null;
+  return object && property ? `${object}.${property}` : null;
+}
+
+function getExpressionOrSpread(value: SwcNode): unknown {
+  return getNodeType(value) === undefined ? value.expression : value;
+}
+
+function findInList(values: unknown[], context: PurityContext): string | null {
+  for (const value of values) {
+    const effect = findSideEffect(value, context);
+    if (effect) return effect;
+  }
+  return null;
+}
+
+function findClassSideEffect(
+  node: SwcNode,
+  context: PurityContext,
+): string | null {
+  const superEffect = findSideEffect(node.superClass, context);
+  if (superEffect) return superEffect;
+  for (const member of getNodeArray(node.body)) {
+    const memberType = getNodeType(member);
+    if (memberType === "StaticBlock") return "static block";
+    const key = isSwcNode(member.key) ? member.key : null;
+    if (key && getNodeType(key) === "Computed") {
+      const keyEffect = findSideEffect(key.expression, context);
+      if (keyEffect) return keyEffect;
+    }
+    if (
+      (memberType === "ClassProperty" || memberType === "PrivateProperty") &&
+      member.isStatic === true
+    ) {
+      const valueEffect = findSideEffect(member.value, context);
+      if (valueEffect) return valueEffect;
+    }
+  }
+  return null;
+}
+
+/**
+ * Describes the first part of an expression that may have side effects when
+ * evaluated, such as `call to createPool`, or `null` when it is pure. Function
+ * bodies are not inspected, since defining a function runs none of its code.
+ */
+export function findSideEffect(
+  value: unknown,
+  context: PurityContext,
+): string | null {
+  if (!isSwcNode(value)) return null;
+  const nodeType = getNodeType(value);
+  if (!nodeType) return null;
+  if (PURE_NODES.has(nodeType)) return null;
+  if (TRANSPARENT_WRAPPERS.has(nodeType)) {
+    return findSideEffect(value.expression, context);
+  }
+  switch (nodeType) {
+    case "TemplateLiteral":
+      return findInList(getNodeArray(value.expressions), context);
+    case "ArrayExpression":
+      return findInList(
+        getNodeArray(value.elements).map(getExpressionOrSpread),
+        context,
+      );
+    case "ObjectExpression":
+      return findInList(
+        getNodeArray(value.properties).flatMap((property) => {
+          const key = isSwcNode(property.key) ? property.key : null;
+          const computed = key && getNodeType(key) === "Computed"
+            ? [key.expression]
+            : [];
+          switch (getNodeType(property)) {
+            case "KeyValueProperty":
+              return [...computed, property.value];
+            case "SpreadElement":
+              return [property.arguments];
+            default:
+              return computed;
+          }
+        }),
+        context,
+      );
+    case "UnaryExpression":
+      return value.operator === "delete"
+        ? "delete expression"
+        : findSideEffect(value.argument, context);
+    case "BinaryExpression":
+      return findInList([value.left, value.right], context);
+    case "ConditionalExpression":
+      return findInList(
+        [value.test, value.consequent, value.alternate],
+        context,
+      );
+    case "SequenceExpression":
+      return findInList(getNodeArray(value.expressions), context);
+    case "ClassExpression":
+      return findClassSideEffect(value, context);
+    case "OptionalChainingExpression":
+      return findSideEffect(value.base, context);
+    case "MemberExpression": {
+      const object = isSwcNode(value.object) ? value.object : null;
+      const name = object && getNodeType(object) === "Identifier"
+        ? getIdentifierValue(object)
+        : null;
+      if (name && context.isImport(name)) {
+        return `member access on import "${name}"`;
+      }
+      const property = isSwcNode(value.property) ? value.property : null;
+      return findInList(
+        [
+          object,
+          property && getNodeType(property) === "Computed"
+            ? property.expression
+            : null,
+        ],
+        context,
+      );
+    }
+    case "CallExpression":
+    case "OptionalCallExpression":
+    case "NewExpression": {
+      const callee = isSwcNode(value.callee) ? value.callee : null;
+      const calleeName = callee ? getDottedName(callee) : null;
+      if (
+        !context.isAnnotatedPure(value) &&
+        (calleeName === null || !context.pure.has(calleeName))
+      ) {
+        const label = nodeType === "NewExpression" ? "new" : "call to";
+        return `${label} ${calleeName ?? "an expression"}`;
+      }
+      return findInList(
+        getNodeArray(value.arguments).map(getExpressionOrSpread),
+        context,
+      );
+    }
+    default:
+      return nodeType;
+  }
+}
+
+function findDeclaratorSideEffect(
+  declarator: SwcNode,
+  context: PurityContext,
+): string | null {
+  const init = isSwcNode(declarator.init) ? declarator.init : null;
+  const name = init && getNodeType(init) === "Identifier"
+    ? getIdentifierValue(init)
+    : null;
+  // Destructuring reads the properties of the initializer.
+  if (
+    name && context.isImport(name) && isSwcNode(declarator.id) &&
+    getNodeType(declarator.id) !== "Identifier"
+  ) {
+    return `member access on import "${name}"`;
+  }
+  return findSideEffect(init, context);
+}
+
+/**
+ * Side effect of evaluating a top-level declaration or one of its variable
+ * declarators, as described by {@link findSideEffect}. Function declarations
+ * and enums are pure.
+ */
+export function findDeclarationSideEffect(
+  declaration: SwcNode,
+  context: PurityContext,
+): string | null {
+  switch (getNodeType(declaration)) {
+    case "VariableDeclaration":
+      for (const declarator of getNodeArray(declaration.declarations)) {
+        const effect = findDeclaratorSideEffect(declarator, context);
+        if (effect) return effect;
+      }
+      return null;
+    case "VariableDeclarator":
+      return findDeclaratorSideEffect(declaration, context);
+    case "ClassDeclaration":
+      return findClassSideEffect(declaration, context);
+    default:
+      return null;
+  }
+}
@@ -1,28 +1,106 @@
+import type { InlineClientSourceMap } from "./inline-client-sourcemap.ts";
+
 export const INLINE_ID_PREFIX = "\0inline-client:";
+/** Prefix of modules hoisted out of `"use server"` functions. */
+export const INLINE_SERVER_ID_PREFIX = "\0inline-server:";
+/** Prefix of worker entries built from `"use worker"` functions. */
+export const INLINE_WORKER_ID_PREFIX = "\0inline-worker:";
+/**
+ * Prefix of the specifier a client module imports another handler of the same
+ * file through. It resolves to whichever module id that handler ended up in.
+ */
+export const HANDLER_REFERENCE_PREFIX = "\0use-client-handler:";
+
+const INLINE_ID_PREFIXES = [
+  INLINE_ID_PREFIX,
+  INLINE_SERVER_ID_PREFIX,
+  INLINE_WORKER_ID_PREFIX,
+];
+
+export type InlineClientModule = {
+  code: string;
+  map: InlineClientSourceMap | null;
+};
 
 export type InlineClientRegistry = {
-  set(id: string, code: string): void;
-  get(id: string): string | undefined;
+  /**
+   * Replaces every module registered for `source` with `modules`. Modules no
+   * other source still registers are dropped.
+   */
+  setFile(source: string, modules: Map<string, InlineClientModule>): void;
+  deleteFile(source: string): void;
+  get(id: string): InlineClientModule | undefined;
   clear(): void;
 };
 
+/**
+ * Client modules keyed by the source file that produced them, so a
+ * re-transform (for example a watch rebuild) swaps out exactly that file's
+ * modules and the rest of the build keeps resolving.
+ */
 export function createInlineClientRegistry(): InlineClientRegistry {
-  const modules = new Map<string, string>();
+  const modules = new Map<string, InlineClientModule>();
+  const idsBySource = new Map<string, Set<string>>();
+  const sourcesById = new Map<string, Set<string>>();
+
+  const deleteFile = (source: string) => {
+    const ids = idsBySource.get(source);
+    if (!ids) return;
+    idsBySource.delete(source);
+    for (const id of ids) {
+      const sources = sourcesById.get(id);
+      sources?.delete(source);
+      if (!sources || sources.size === 0) {
+        sourcesById.delete(id);
+        modules.delete(id);
+      }
+    }
+  };
+
   return {
-    set(id: string, code: string) {
-      modules.set(id, code);
+    setFile(source: string, fileModules: Map<string, InlineClientModule>) {
+      deleteFile(source);
+      if (fileModules.size === 0) return;
+      idsBySource.set(source, new Set(fileModules.keys()));
+      for (const [id, module] of fileModules) {
+        modules.set(id, module);
+        const sources = sourcesById.get(id) ?? new Set<string>();
+        sources.add(source);
+        sourcesById.set(id, sources);
+      }
     },
+    deleteFile,
     get(id: string) {
       return modules.get(id);
     },
     clear() {
       modules.clear();
+      idsBySource.clear();
+      sourcesById.clear();
     },
   };
 }
 
+/** Specifier of the top-level handler bound to `binding` in `source`. */
+export function createHandlerReference(
+  source: string,
+  binding: string,
+): string {
+  return `${HANDLER_REFERENCE_PREFIX}${source}#${binding}`;
+}
+
+export function getInlineIdPrefix(id: string): string | null {
+  return INLINE_ID_PREFIXES.find((prefix) => id.startsWith(prefix)) ?? null;
+}
+
+export function isInlineModuleId(id: string): boolean {
+  return getInlineIdPrefix(id) !== null;
+}
+
 export function parseInlineModulePath(inlineId: string): string {
-  const withoutPrefix = inlineId.slice(INLINE_ID_PREFIX.length);
+  const withoutPrefix = inlineId.slice(
+    (getInlineIdPrefix(inlineId) ?? INLINE_ID_PREFIX).length,
+  );
   const queryIndex = withoutPrefix.indexOf("?");
   const hashIndex = withoutPrefix.indexOf("#");
   const cutIndex = queryIndex === -1
@@ -0,0 +1,144 @@
+import path from "node:path";
+import type { InlineClientHandlerInfo } from "./inline-client-manifest.ts";
+
+export type InlineClientReplacementContext = {
+  /**
+   * Reference id returned by `emitFile`, usable in
+   * `import.meta.ROLLUP_FILE_URL_<refId>`. Under `granularity: "entry"` the
+   * chunk is only known once the module graph is complete, so this is not an
+   * emitted file; use `fileName` instead.
+   */
+  refId: string;
+  /**
+   * Placeholder for the emitted client chunk file name. It is replaced with
+   * the final, hashed file name when chunks are rendered, so it can be used
+   * inside string literals of the returned expression.
+   */
+  fileName: string;
+  /**
+   * Export of the client module that holds the handler. This is `"default"`
+   * when `granularity` is `"handler"`.
+   */
+  exportName: string;
+  /**
+   * Expression evaluating to the JSON array of bound arguments, such as
+   * `JSON.stringify([count, label])`, or `null` when the handler captures
+   * nothing. The export is then a factory that takes those values and returns
+   * the handler.
+   */
+  args: string | null;
+  handler: InlineClientHandlerInfo;
+};
+
+export type InlineClientReplacement =
+  | "pathname"
+  | "href"
+  | "relative"
+  | { base: string }
+  | ((context: InlineClientReplacementContext) => string);
+
+// Bundlers may fold a constant `#<export>` suffix into the placeholder string.
+const PLACEHOLDER_PATTERN =
+  /(["'])__INLINE_CLIENT_(RELATIVE|BASE)_([A-Za-z0-9_$]+)__(#[^"'\\\n]*)?\1/g;
+const FILE_NAME_PLACEHOLDER_PATTERN = /__INLINE_CLIENT_FILE_([A-Za-z0-9_$]+)__/g;
+
+export function createFileNamePlaceholder(refId: string): string {
+  return `__INLINE_CLIENT_FILE_${refId}__`;
+}
+
+function toPlaceholder(kind: "RELATIVE" | "BASE", refId: string) {
+  return JSON.stringify(`__INLINE_CLIENT_${kind}_${refId}__`);
+}
+
+/**
+ * Returns the JavaScript expression that replaces an extracted handler.
+ * `relative` and `base` need the final chunk layout, so they emit string
+ * placeholders that `resolveReplacementPlaceholders` fills in at render time.
+ * Presets append `#<export>` for handlers that are not the default export,
+ * or `#export=<export>&args=<json>` for handlers with bound arguments.
+ * `deferred` marks a `refId` that only names a chunk at render time, which
+ * `import.meta.ROLLUP_FILE_URL_<refId>` cannot refer to.
+ */
+export function createReplacementExpression(
+  replacement: InlineClientReplacement,
+  context: InlineClientReplacementContext,
+  deferred = false,
+): string {
+  if (typeof replacement === "function") {
+    return `(${replacement(context)})`;
+  }
+  const url = createPresetExpression(replacement, context.refId, deferred);
+  if (context.args !== null) {
+    return `${url} + "#" + new URLSearchParams({ export: ${
+      JSON.stringify(context.exportName)
+    }, args: ${context.args} })`;
+  }
+  return context.exportName === "default"
+    ? url
+    : `${url} + ${JSON.stringify(`#${context.exportName}`)}`;
+}
+
+function createPresetExpression(
+  replacement: Exclude<InlineClientReplacement, (...args: never) => unknown>,
+  refId: string,
+  deferred: boolean,
+) {
+  const fileUrl = deferred
+    ? toPlaceholder("RELATIVE", refId)
+    : `import.meta.ROLLUP_FILE_URL_${refId}`;
+  if (replacement === "pathname") {
+    return `new URL(${fileUrl}, import.meta.url).pathname`;
+  }
+  if (replacement === "href") {
+    return `new URL(${fileUrl}, import.meta.url).href`;
+  }
+  if (replacement === "relative") {
+    return toPlaceholder("RELATIVE", refId);
+  }
+  return toPlaceholder("BASE", refId);
+}
+
+export function hasReplacementPlaceholders(code: string): boolean {
+  return code.includes("__INLINE_CLIENT_RELATIVE_") ||
+    code.includes("__INLINE_CLIENT_BASE_") ||
+    code.includes("__INLINE_CLIENT_FILE_");
+}
+
+/**
+ * Spans of `code` holding placeholders and the text that replaces each,
+ * sorted by start, so the caller can map the rewritten chunk.
+ */
+export function resolveReplacementPlaceholders(
+  code: string,
+  chunkFileName: string,
+  replacement: InlineClientReplacement,
+  getFileName: (refId: string) => string,
+): Array<{ start: number; end: number; code: string }> {
+  const rewrites = [
+    ...code.matchAll(PLACEHOLDER_PATTERN),
+  ].map(({ 0: match, 2: kind, 3: refId, 4: suffix = "", index }) => {
+    const fileName = getFileName(refId);
+    let url: string;
+    if (kind === "RELATIVE") {
+      url = path.posix.relative(path.posix.dirname(chunkFileName), fileName);
+      if (!url.startsWith(".")) url = `./${url}`;
+    } else {
+      const base = typeof replacement === "object" ? replacement.base : "/";
+      url = `${base.endsWith("/") ? base : `${base}/`}${fileName}`;
+    }
+    return {
+      start: index,
+      end: index + match.length,
+      code: JSON.stringify(`${url}${suffix}`),
+    };
+  });
+  const fileNames = code.matchAll(FILE_NAME_PLACEHOLDER_PATTERN);
+  for (const { 0: match, 1: refId, index } of fileNames) {
+    rewrites.push({
+      start: index,
+      end: index + match.length,
+      code: getFileName(refId),
+    });
+  }
+  return rewrites.sort((a, b) => a.start - b.start);
+}
@@ -1,18 +1,21 @@
-import { assert, assertExists, assertRejects } from "std/assert";
+import { assert, assertEquals, assertExists, assertRejects } from "std/assert";
 import path from "node:path";
-import { rolldown } from "rolldown";
+import { pathToFileURL } from "node:url";
+import { rolldown, watch } from "rolldown";
 import { parseSync } from "@swc/core";
 import { INLINE_ID_PREFIX, parseInlineModulePath } from "./inline-client-registry.ts";
 import useClient from "./inline-client-rolldown.ts";
+import { PLUGIN_VERSION } from "./inline-client-cache.ts";
+import { createActionId } from "./inline-server-actions.ts";
 
-type EmitFileChunk = { fileName?: string; id?: string };
+type EmitFileChunk = { fileName?: string; name?: string; id?: string };
 type TransformContextLike = {
   warn?: (message: string) => void;
   addWatchFile?: (id: string) => void;
   emitFile?: (chunk: EmitFileChunk) => string;
   error?: (message: string) => void;
 };
-type TransformResult = { code?: string } | null | undefined;
+type TransformResult = { code?: string; map?: unknown } | null | undefined;
 type TransformHandler = (
   this: TransformContextLike,
   code: string,
@@ -57,6 +60,67 @@ function getResultCode(result: unknown): string | undefined {
   return typeof code === "string" ? code : undefined;
 }
 
+const VLQ_BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+type DecodedSegment = {
+  generatedColumn: number;
+  sourceLine?: number;
+  sourceColumn?: number;
+};
+
+function decodeMappings(mappings: string): DecodedSegment[][] {
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  return mappings.split(";").map((line) => {
+    let generatedColumn = 0;
+    if (line.length === 0) return [];
+    return line.split(",").map((segment) => {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = VLQ_BASE64.indexOf(char);
+        value += (digit & 0b11111) << shift;
+        if (digit & 0b100000) {
+          shift += 5;
+          continue;
+        }
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+      }
+      generatedColumn += values[0];
+      if (values.length < 4) return { generatedColumn };
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      return { generatedColumn, sourceLine, sourceColumn };
+    });
+  });
+}
+
+function toLineColumn(code: string, index: number) {
+  const before = code.slice(0, index).split("\n");
+  return { line: before.length - 1, column: before[before.length - 1].length };
+}
+
+function getResultMappings(result: unknown): string | undefined {
+  const map = asRecord(asRecord(result)?.map);
+  return typeof map?.mappings === "string" ? map.mappings : undefined;
+}
+
+function findOriginalPosition(
+  mappings: string,
+  generated: { line: number; column: number },
+) {
+  const segments = decodeMappings(mappings)[generated.line] ?? [];
+  const segment = segments.find((entry) =>
+    entry.generatedColumn === generated.column
+  );
+  if (segment?.sourceLine === undefined) return null;
+  return { line: segment.sourceLine, column: segment.sourceColumn };
+}
+
 function countRefMarkers(code: string): number {
   return code.match(/ROLLUP_FILE_URL_ref_/g)?.length ?? 0;
 }
@@ -306,7 +370,7 @@ Deno.test("inline handler rejects unresolved references", async () => {
 
   const code = `
 export function Component() {
-  const local = "nope";
+  const local = new Date();
   const handler = () => {
     "use client";
     return local;
@@ -341,7 +405,7 @@ Deno.test("inline handler warns on unresolved references by default", async () =
 
   const code = `
 export function Component() {
-  const local = "nope";
+  const local = new Date();
   const handler = () => {
     "use client";
     return local;
@@ -359,6 +423,197 @@ export function Component() {
   );
 });
 
+Deno.test("enclosing locals are not replaced by same-named top-level declarations", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+  const warnings: string[] = [];
+  let moduleId = "";
+
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  const code = `
+const label = "top-level";
+
+export function Component() {
+  const label = readLabel();
+  return scope.mount(() => {
+    "use client";
+    console.log(label);
+  });
+}
+`;
+
+  await handler.call(ctx, code, "/tmp/inline-shadowed-local.tsx");
+  const clientCode = getResultCode(await loadHandler(moduleId));
+  assertExists(clientCode, "client module should still be emitted");
+  assert(
+    !clientCode.includes('"top-level"'),
+    "shadowed top-level declaration should not be copied",
+  );
+  assert(
+    warnings.some((message) =>
+      message.includes("not available in the client bundle: label")
+    ),
+    "captured local should be reported as unresolved",
+  );
+});
+
+Deno.test("serializable captures are passed to the handler as bound arguments", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+  const warnings: string[] = [];
+  let moduleId = "";
+
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  const code = `
+type Props = { id: string; step: number };
+
+export function Counter({ id, step }: Props, onDone: () => void) {
+  const label = "count";
+  return scope.mount(() => {
+    "use client";
+    console.log(id, label, step);
+    onDone();
+  });
+}
+`;
+
+  const result = await handler.call(ctx, code, "/tmp/inline-bound.tsx");
+  const clientCode = getResultCode(await loadHandler(moduleId));
+  assertExists(clientCode, "client module should be emitted");
+  assert(
+    clientCode.includes("export default (id, label, step) => () => {"),
+    "client module should export a factory taking the bound values",
+  );
+  const serverCode = getResultCode(result);
+  assert(
+    serverCode?.includes(
+      'new URL(import.meta.ROLLUP_FILE_URL_ref_0, import.meta.url).pathname + "#" + new URLSearchParams({ export: "default", args: JSON.stringify([id, label, step]) })',
+    ),
+    "call site should pass the bound values in the fragment",
+  );
+  assert(
+    warnings.length === 1 &&
+      warnings[0].endsWith("not available in the client bundle: onDone"),
+    `only the non-serializable capture should be reported: ${
+      warnings.join("\n")
+    }`,
+  );
+});
+
+Deno.test("browser globals from the DOM lib do not warn", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const warnings: string[] = [];
+
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile() {
+      return "ref_0";
+    },
+  };
+
+  const code = `
+export const handler = (event) => {
+  "use client";
+  const select = event.currentTarget as HTMLSelectElement;
+  localStorage.setItem("theme", select.value);
+  sessionStorage.clear();
+  new WebSocket("/live").send(getComputedStyle(document.body).color);
+  new Worker("/worker.js");
+};
+`;
+
+  await handler.call(ctx, code, "/tmp/inline-browser-globals.tsx");
+  assert(warnings.length === 0, `unexpected warnings: ${warnings.join("\n")}`);
+});
+
+Deno.test("env presets and globals decide which names are unresolved", async () => {
+  const warnings: string[] = [];
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile() {
+      return "ref_0";
+    },
+  };
+
+  const code = `
+export const handler = () => {
+  "use client";
+  analytics.track(document.title);
+  alert("sent");
+};
+`;
+
+  const plugin = useClient({
+    env: {
+      preset: "worker",
+      globals: { add: ["analytics"], remove: ["alert"] },
+    },
+  });
+  await getTransformHandler(plugin).call(ctx, code, "/tmp/inline-env.tsx");
+  assert(
+    warnings.length === 1 &&
+      warnings[0].includes("not available in the client bundle: document, alert"),
+    "names outside the worker preset and removed globals should warn",
+  );
+});
+
+Deno.test("top-level declarations shadow globals of the same name", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+  let moduleId = "";
+
+  const ctx: TransformContextLike = {
+    warn() {},
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  const code = `
+const name = "widget";
+
+export const handler = () => {
+  "use client";
+  console.log(name);
+};
+`;
+
+  await handler.call(ctx, code, "/tmp/inline-shadowed-global.tsx");
+  const clientCode = getResultCode(await loadHandler(moduleId));
+  assertExists(clientCode, "client module should be emitted");
+  assert(
+    clientCode.includes('const name = "widget"'),
+    "top-level declaration should be bundled instead of the global",
+  );
+});
+
 Deno.test("inline arrow handler warns when referencing arguments", async () => {
   const plugin = useClient();
   const handler = getTransformHandler(plugin);
@@ -469,7 +724,7 @@ Deno.test("strict mode rejects unresolved references without override", async ()
 
   const code = `
 export function Component() {
-  const local = "nope";
+  const local = new Date();
   const handler = () => {
     "use client";
     return local;
@@ -504,7 +759,7 @@ Deno.test("strict mode unresolved override still applies", async () => {
 
   const code = `
 export function Component() {
-  const local = "nope";
+  const local = new Date();
   const handler = () => {
     "use client";
     return local;
@@ -620,7 +875,7 @@ Deno.test("inline handler hash follows file contents", async () => {
     warn: () => {},
     addWatchFile: () => {},
     emitFile(chunk: EmitFileChunk) {
-      fileNames.push(chunk.fileName);
+      fileNames.push(chunk.name);
       return `ref_${fileNames.length - 1}`;
     },
   });
@@ -647,7 +902,7 @@ Deno.test("hash changes when file contents change", async () => {
   const fileNames: Array<string | undefined> = [];
   const makeCtx = (): TransformContextLike => ({
     emitFile(chunk: EmitFileChunk) {
-      fileNames.push(chunk.fileName);
+      fileNames.push(chunk.name);
       return `ref_${fileNames.length - 1}`;
     },
   });
@@ -675,14 +930,14 @@ export const handler = () => {
   assert(hashA && hashB && hashA !== hashB, "hash should change on edits");
 });
 
-Deno.test("same basename and content still emit unique client chunk filenames", async () => {
+Deno.test("same basename and content share one client chunk", async () => {
   const plugin = useClient();
   const handler = getTransformHandler(plugin);
 
   const fileNames: Array<string | undefined> = [];
   const makeCtx = (): TransformContextLike => ({
     emitFile(chunk: EmitFileChunk) {
-      fileNames.push(chunk.fileName);
+      fileNames.push(chunk.name);
       return `ref_${fileNames.length - 1}`;
     },
   });
@@ -694,14 +949,16 @@ export const handler = () => {
 };
 `;
 
-  await handler.call(makeCtx(), code, "/tmp/a/index.tsx");
-  await handler.call(makeCtx(), code, "/tmp/b/index.tsx");
+  const resultA = await handler.call(makeCtx(), code, "/tmp/a/index.tsx");
+  const resultB = await handler.call(makeCtx(), code, "/tmp/b/index.tsx");
 
-  const nameA = fileNames[0];
-  const nameB = fileNames[1];
-  assertExists(nameA);
-  assertExists(nameB);
-  assert(nameA !== nameB, "filenames should not collide across directories");
+  assertEquals(fileNames.length, 1, "identical handlers should emit one chunk");
+  for (const result of [resultA, resultB]) {
+    assert(
+      getResultCode(result)?.includes("import.meta.ROLLUP_FILE_URL_ref_0"),
+      "both files should reference the shared chunk",
+    );
+  }
 });
 
 Deno.test("query and hash in transform ids do not affect watch paths or hashes", async () => {
@@ -715,7 +972,7 @@ Deno.test("query and hash in transform ids do not affect watch paths or hashes",
       watched.push(path.resolve(id));
     },
     emitFile(chunk: EmitFileChunk) {
-      fileNames.push(chunk.fileName);
+      fileNames.push(chunk.name);
       return `ref_${fileNames.length - 1}`;
     },
   });
@@ -1462,3 +1719,2289 @@ export const handler = () => {
   const handlerCodeResult = getResultCode(handlerResult);
   assertExists(handlerCodeResult, "handler module should be transformed");
 });
+
+Deno.test("server module source map tracks positions after replaced spans", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+
+  const ctx: TransformContextLike = {
+    emitFile() {
+      return "ref_0";
+    },
+  };
+
+  const code = "\uFEFF// leading comment \u{1F389}\n" +
+    'const label = "caf\u00e9 \u{1F600}"; const top = () => {\n' +
+    '  "use client";\n' +
+    "  return label;\n" +
+    "}; export const after = top;\n" +
+    "export const tail = label;\n";
+
+  const result = await handler.call(ctx, code, "/tmp/sourcemap-server.tsx");
+  const resultCode = getResultCode(result);
+  const mappings = getResultMappings(result);
+  assertExists(resultCode, "transform result should include code");
+  assertExists(mappings, "transform result should include a source map");
+
+  for (const marker of ["after", "tail", "label"]) {
+    const generated = toLineColumn(resultCode, resultCode.lastIndexOf(marker));
+    const original = toLineColumn(code, code.lastIndexOf(marker));
+    const mapped = findOriginalPosition(mappings, generated);
+    assertExists(mapped, `"${marker}" should have a mapping`);
+    assert(
+      mapped.line === original.line && mapped.column === original.column,
+      `"${marker}" should map back to its original position`,
+    );
+  }
+
+  const replaced = toLineColumn(
+    resultCode,
+    resultCode.indexOf("new URL(import.meta.ROLLUP_FILE_URL_ref_0"),
+  );
+  const handlerStart = toLineColumn(code, code.indexOf("() => {"));
+  const mappedReplacement = findOriginalPosition(mappings, replaced);
+  assertExists(mappedReplacement, "replacement should have a mapping");
+  assert(
+    mappedReplacement.line === handlerStart.line &&
+      mappedReplacement.column === handlerStart.column,
+    "replacement should map to the original handler position",
+  );
+
+  // Placeholders resolved when the chunk renders keep later columns mapped.
+  const renderChunk = useClient({ replacement: "relative" })
+    .renderChunk as unknown as (
+      this: { getFileName(refId: string): string },
+      code: string,
+      chunk: { fileName: string; facadeModuleId: string | null },
+      outputOptions: unknown,
+      meta: unknown,
+    ) => TransformResult;
+  const chunkCode = 'const url = "__INLINE_CLIENT_RELATIVE_ref_0__#open";' +
+    " export const after = url;\n";
+  const rendered = renderChunk.call(
+    { getFileName: () => "assets/handler.client.js" },
+    chunkCode,
+    { fileName: "server/entry.js", facadeModuleId: null },
+    {},
+    { chunks: {} },
+  );
+  const renderedCode = getResultCode(rendered);
+  const renderedMappings = getResultMappings(rendered);
+  assertExists(renderedCode, "renderChunk should resolve the placeholder");
+  assertExists(renderedMappings, "renderChunk should return a source map");
+  assert(renderedCode.includes('"../assets/handler.client.js#open"'));
+  const mappedAfter = findOriginalPosition(
+    renderedMappings,
+    toLineColumn(renderedCode, renderedCode.lastIndexOf("after")),
+  );
+  assertEquals(
+    mappedAfter,
+    toLineColumn(chunkCode, chunkCode.lastIndexOf("after")),
+  );
+});
+
+Deno.test("client module source map points back to the original component", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+
+  let moduleId = "";
+  const ctx: TransformContextLike = {
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  const code = `import { format } from "./format.ts";
+import { unused } from "./unused.ts";
+
+const prefix = "café \u{1F600}";
+
+export function Component() {
+  unused();
+  return scope.mount(function (event: Event) {
+    "use client";
+    console.log(format(prefix), event);
+  });
+}
+`;
+
+  await handler.call(ctx, code, "/tmp/sourcemap-client.tsx");
+  const loaded = await loadHandler(moduleId);
+  const clientCode = getResultCode(loaded);
+  const mappings = getResultMappings(loaded);
+  assertExists(clientCode, "inline module should load");
+  assertExists(mappings, "inline module should carry a source map");
+  assert(
+    !clientCode.includes('"use client";\n    console'),
+    "directive should be removed from the handler body",
+  );
+
+  const markers = [
+    'import { format } from "./format.ts"',
+    "const prefix",
+    "console.log(format(prefix), event)",
+    "event: Event",
+  ];
+  for (const marker of markers) {
+    const generated = toLineColumn(clientCode, clientCode.indexOf(marker));
+    const original = toLineColumn(code, code.indexOf(marker));
+    const mapped = findOriginalPosition(mappings, generated);
+    assertExists(mapped, `"${marker}" should have a mapping`);
+    assert(
+      mapped.line === original.line && mapped.column === original.column,
+      `"${marker}" should map back to its original position`,
+    );
+  }
+
+  const map = asRecord(asRecord(loaded)?.map);
+  assert(
+    Array.isArray(map?.sources) && map.sources[0] === "/tmp/sourcemap-client.tsx",
+    "source map should reference the original component file",
+  );
+});
+
+Deno.test("manifest records handlers and is importable from server code", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-manifest-" });
+
+  const entry = path.join(root, "entry.ts");
+  const shared = path.join(root, "shared.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+import manifest from "virtual:use-client/manifest";
+import { shared } from "./shared.ts";
+
+export const handler = () => {
+  "use client";
+  return shared();
+};
+
+export const serverValue = shared();
+export { manifest };
+`.trimStart(),
+  );
+
+  await Deno.writeTextFile(
+    shared,
+    `
+export function shared() {
+  return "shared";
+}
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ manifest: { fileName: "client-manifest.json" } })],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const clientChunk = (output as Array<unknown>).find(isInlineClientChunk);
+    assertExists(clientChunk, "expected an inline client chunk to be emitted");
+    const clientFileName = asRecord(clientChunk)?.fileName;
+
+    const manifestAsset = (output as Array<unknown>).map(asRecord).find(
+      (record) => record?.fileName === "client-manifest.json",
+    );
+    assertExists(manifestAsset, "manifest asset should be emitted");
+    const manifest = JSON.parse(String(manifestAsset.source));
+    assert(manifest.handlers.length === 1, "manifest should list the handler");
+    const [entryRecord] = manifest.handlers;
+    assert(entryRecord.source === entry, "manifest should record the source");
+    assert(entryRecord.line === 4, "manifest should record the handler line");
+    assert(entryRecord.column === 23, "manifest should record the column");
+    assert(entryRecord.binding === "handler", "manifest should record binding");
+    assert(
+      entryRecord.file === clientFileName,
+      "manifest should record the emitted file name",
+    );
+    assert(
+      entryRecord.imports.length === 1 &&
+        entryRecord.imports[0] === "./shared.ts",
+      "manifest should record copied imports",
+    );
+    const fileNames = (output as Array<unknown>).map((item) =>
+      asRecord(item)?.fileName
+    );
+    assert(
+      entryRecord.chunkImports.length > 0 &&
+        entryRecord.chunkImports.every((file: string) =>
+          fileNames.includes(file)
+        ),
+      "manifest should record the chunk import graph",
+    );
+
+    const serverChunk = (output as Array<unknown>).map(asRecord).find(
+      (record) => record?.type === "chunk" && record.facadeModuleId === entry,
+    );
+    assertExists(serverChunk, "server entry chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(
+      !serverCode.includes("__INLINE_CLIENT_MANIFEST__"),
+      "manifest placeholder should be replaced",
+    );
+    assert(
+      serverCode.includes(String(clientFileName)),
+      "inlined manifest should reference the client chunk",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("replacement presets and callbacks build the handler expression", async () => {
+  const code = `
+export const handler = () => {
+  "use client";
+  return 1;
+};
+`;
+  const ctx: TransformContextLike = {
+    emitFile() {
+      return "ref_0";
+    },
+  };
+
+  const hrefResult = await getTransformHandler(
+    useClient({ replacement: "href" }),
+  ).call(ctx, code, "/tmp/replacement-href.tsx");
+  assert(
+    getResultCode(hrefResult)?.includes(
+      "new URL(import.meta.ROLLUP_FILE_URL_ref_0, import.meta.url).href",
+    ),
+    "href preset should keep the full URL",
+  );
+
+  const contexts: Array<Record<string, unknown>> = [];
+  const callbackResult = await getTransformHandler(
+    useClient({
+      replacement(context) {
+        contexts.push(context);
+        return `loadHandler(import.meta.ROLLUP_FILE_URL_${context.refId})`;
+      },
+    }),
+  ).call(ctx, code, "/tmp/replacement-callback.tsx");
+  assert(
+    getResultCode(callbackResult)?.includes(
+      "export const handler = (loadHandler(import.meta.ROLLUP_FILE_URL_ref_0));",
+    ),
+    "callback result should become the replacement expression",
+  );
+  const [context] = contexts;
+  assertExists(context, "callback should receive handler context");
+  assert(context.refId === "ref_0", "callback should receive the ref id");
+  assert(
+    context.fileName === "__INLINE_CLIENT_FILE_ref_0__",
+    "callback should receive the render-time file name placeholder",
+  );
+  const handlerInfo = asRecord(context.handler);
+  assert(
+    handlerInfo?.binding === "handler" && handlerInfo.line === 2,
+    "callback should receive handler metadata",
+  );
+});
+
+Deno.test("imports of use client modules become client chunk URLs", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-module-" });
+  const entry = path.join(root, "entry.tsx");
+  const widget = path.join(root, "widget.tsx");
+  const helper = path.join(root, "helper.ts");
+
+  await Deno.writeTextFile(
+    widget,
+    `"use client";
+import { format } from "./helper.ts";
+
+customElements.define("x-widget", class extends HTMLElement {});
+
+export default function mountWidget(element: HTMLElement) {
+  element.textContent = format("widget");
+}
+
+export const openWidget = () => format("open");
+`,
+  );
+  await Deno.writeTextFile(
+    helper,
+    `export const format = (value: string) => "[" + value + "]";\n`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `import mountWidget, { openWidget as open, type WidgetProps } from "./widget.tsx";
+import { format } from "./helper.ts";
+
+export const handlers = { mount: mountWidget, open };
+export const label = format("server");
+`,
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ manifest: true })],
+  });
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const clientChunk = records.find((record) =>
+      record?.facadeModuleId ===
+        `${INLINE_ID_PREFIX}${widget}?use-client-module`
+    );
+    assertExists(clientChunk, "the client module should be emitted as a chunk");
+    const clientFileName = String(clientChunk.fileName);
+    assert(
+      /^assets\/widget\.[\w-]+\.client\.js$/.test(clientFileName),
+      `client module chunk should follow chunkFileNames: ${clientFileName}`,
+    );
+    const clientCode = String(clientChunk.code);
+    assert(
+      clientCode.includes('customElements.define("x-widget"'),
+      "top-level side effects of the client module should be kept",
+    );
+
+    const serverChunk = records.find((record) =>
+      record?.facadeModuleId === entry
+    );
+    assertExists(serverChunk, "server chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(
+      !serverCode.includes("textContent") &&
+        !serverCode.includes("customElements"),
+      "client module code should not be bundled into the server chunk",
+    );
+    assert(
+      serverCode.includes(clientFileName) &&
+        serverCode.includes('"#openWidget"'),
+      "imports should be replaced with the client chunk URL and export",
+    );
+
+    const manifestAsset = records.find((record) =>
+      record?.fileName === "use-client-manifest.json"
+    );
+    const manifest = JSON.parse(String(manifestAsset?.source));
+    assert(
+      manifest.handlers.length === 2 &&
+        manifest.handlers.every((handler: Record<string, unknown>) =>
+          handler.source === widget && handler.file === clientFileName
+        ),
+      "manifest should list the imported client module exports",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("imports with type client bind the URL of any module", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-attribute-" });
+  const entry = path.join(root, "entry.ts");
+  const toggle = path.join(root, "toggle.ts");
+
+  await Deno.writeTextFile(
+    toggle,
+    `export default function toggle(element: HTMLElement) {
+  element.hidden = !element.hidden;
+}
+export const label = "toggle";
+`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `import handler, { label } from "./toggle.ts" with { type: "client" };
+import inline from "./toggle.ts" with { type: "client" };
+
+export const handlers = [handler, label, inline];
+`,
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ replacement: "relative" })],
+  });
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const clientChunks = records.filter((record) =>
+      isInlineClientChunk(record) && record.facadeModuleId.includes(toggle)
+    );
+    assert(
+      clientChunks.length === 1,
+      "the module should be emitted as one client chunk",
+    );
+    const clientFileName = String(clientChunks[0]?.fileName);
+    assert(
+      String(clientChunks[0]?.code).includes("element.hidden"),
+      "client chunk should contain the module code",
+    );
+
+    const serverChunk = records.find((record) =>
+      record?.facadeModuleId === entry
+    );
+    assertExists(serverChunk, "server chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(
+      !serverCode.includes("element.hidden"),
+      "module code should not be bundled into the server chunk",
+    );
+    assert(
+      serverCode.includes(`"./${clientFileName}"`) &&
+        serverCode.includes(`"./${clientFileName}#label"`),
+      "imports should bind the client chunk URL and export",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("callable usage of a use client module import is rejected", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-module-call-" });
+  const entry = path.join(root, "entry.tsx");
+  await Deno.writeTextFile(
+    path.join(root, "widget.tsx"),
+    `'use client';\nexport const Widget = () => null;\n`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `import { Widget } from "./widget.tsx";\nexport const page = <Widget />;\n`,
+  );
+
+  await assertRejects(
+    async () => {
+      const bundle = await rolldown({ input: entry, plugins: [useClient()] });
+      try {
+        await bundle.generate({ format: "esm" });
+      } finally {
+        await bundle.close();
+      }
+    },
+    Error,
+    'client module export "Widget"',
+  );
+});
+
+Deno.test("re-exports of use client modules become client chunk URLs", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-reexport-" });
+  const entry = path.join(root, "entry.ts");
+  await Deno.writeTextFile(
+    path.join(root, "widget.ts"),
+    `"use client";\nexport const openWidget = () => document.title;\n`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `export { openWidget } from "./widget.ts";
+export const note = 'import { openWidget } from "./widget.ts"';
+`,
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ replacement: "relative" })],
+  });
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const clientChunk = records.find(isInlineClientChunk);
+    assertExists(clientChunk, "the client module should be emitted");
+    const clientFileName = String(asRecord(clientChunk)?.fileName);
+    const serverChunk = records.find((record) =>
+      record?.facadeModuleId === entry
+    );
+    assertExists(serverChunk, "server chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(
+      serverCode.includes(`"./${clientFileName}#openWidget"`) &&
+        !serverCode.includes("document.title"),
+      "re-exported bindings should be the client chunk URL",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("namespace imports of use client modules are rejected", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-namespace-" });
+  const entry = path.join(root, "entry.ts");
+  await Deno.writeTextFile(
+    path.join(root, "widget.ts"),
+    `"use client";\nexport const openWidget = () => null;\n`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `import * as widget from "./widget.ts";\nexport const page = widget;\n`,
+  );
+
+  await assertRejects(
+    async () => {
+      const bundle = await rolldown({ input: entry, plugins: [useClient()] });
+      try {
+        await bundle.generate({ format: "esm" });
+      } finally {
+        await bundle.close();
+      }
+    },
+    Error,
+    "namespace import of client module",
+  );
+});
+
+Deno.test("use client packages in node_modules are bundled as is", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-package-" });
+  const entry = path.join(root, "entry.ts");
+  const packageDir = path.join(root, "node_modules", "uilib");
+  await Deno.mkdir(packageDir, { recursive: true });
+  await Deno.writeTextFile(
+    path.join(packageDir, "package.json"),
+    JSON.stringify({ name: "uilib", main: "index.js" }),
+  );
+  await Deno.writeTextFile(
+    path.join(packageDir, "index.js"),
+    `"use client";\nexport const Dialog = () => "<dialog>";\n`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `import { Dialog } from "uilib";\nexport const html = Dialog();\n`,
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    cwd: root,
+    plugins: [useClient()],
+  });
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const entryChunk = output.find((item) =>
+      item.type === "chunk" && item.isEntry
+    );
+    assert(entryChunk?.type === "chunk");
+    assert(entryChunk.code.includes(`"<dialog>"`));
+    assertEquals(
+      output.filter((item) => item.fileName.endsWith(".client.js")),
+      [],
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("relative and base replacements resolve against emitted chunks", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-replacement-" });
+  const entry = path.join(root, "entry.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+export const handler = () => {
+  "use client";
+  return 1;
+};
+`.trimStart(),
+  );
+
+  for (
+    const [replacement, expected] of [
+      ["relative", (file: string) => `"../${file}"`],
+      [
+        { base: "https://cdn.example.com/static" },
+        (file: string) => `"https://cdn.example.com/static/${file}"`,
+      ],
+    ] as const
+  ) {
+    const bundle = await rolldown({
+      input: entry,
+      plugins: [useClient({ replacement })],
+    });
+
+    try {
+      const { output } = await bundle.generate({
+        format: "esm",
+        entryFileNames: "server/[name].js",
+      });
+      const clientChunk = (output as Array<unknown>).find(isInlineClientChunk);
+      assertExists(clientChunk, "expected an inline client chunk");
+      const clientFileName = String(asRecord(clientChunk)?.fileName);
+      const serverChunk = (output as Array<unknown>).map(asRecord).find(
+        (record) => record?.facadeModuleId === entry,
+      );
+      assertExists(serverChunk, "server chunk should be emitted");
+      const serverCode = String(serverChunk.code);
+      assert(
+        serverCode.includes(expected(clientFileName)),
+        `replacement should resolve to ${expected(clientFileName)}`,
+      );
+      assert(
+        !serverCode.includes("__INLINE_CLIENT_"),
+        "replacement placeholders should be resolved",
+      );
+    } finally {
+      await bundle.close();
+    }
+  }
+});
+
+Deno.test("client chunk file names follow bundled dependency content", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-content-hash-" });
+  const entry = path.join(root, "entry.ts");
+  const helper = path.join(root, "helper.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+import { helper } from "./helper.ts";
+
+export const handler = () => {
+  "use client";
+  return helper();
+};
+`.trimStart(),
+  );
+
+  const build = async (helperBody: string, chunkFileNames?: string) => {
+    await Deno.writeTextFile(
+      helper,
+      `export function helper() { return ${helperBody}; }\n`,
+    );
+    const bundle = await rolldown({
+      input: entry,
+      plugins: [useClient(chunkFileNames ? { chunkFileNames } : {})],
+    });
+    try {
+      const { output } = await bundle.generate({ format: "esm" });
+      const clientChunk = (output as Array<unknown>).find(isInlineClientChunk);
+      assertExists(clientChunk, "expected an inline client chunk");
+      const serverChunk = (output as Array<unknown>).map(asRecord).find(
+        (record) => record?.facadeModuleId === entry,
+      );
+      assertExists(serverChunk, "server chunk should be emitted");
+      return {
+        fileName: String(asRecord(clientChunk)?.fileName),
+        serverCode: String(serverChunk.code),
+      };
+    } finally {
+      await bundle.close();
+    }
+  };
+
+  const first = await build('"one"');
+  const second = await build('"two"');
+
+  assert(
+    /^assets\/entry\.[0-9a-f]{12}\.[\w-]+\.client\.js$/.test(first.fileName),
+    `default pattern should include a content hash (got ${first.fileName})`,
+  );
+  assert(
+    first.fileName !== second.fileName,
+    "changing a bundled helper should change the client chunk file name",
+  );
+  assert(
+    second.serverCode.includes(`"${second.fileName}"`),
+    "server replacement should resolve to the final hashed file name",
+  );
+
+  const custom = await build('"one"', "client/[name]-[hash].mjs");
+  assert(
+    custom.fileName.startsWith("client/entry.") &&
+      custom.fileName.endsWith(".mjs"),
+    `chunkFileNames should control the client chunk name (got ${custom.fileName})`,
+  );
+});
+
+Deno.test("content handler hash ignores unrelated edits in the same file", async () => {
+  const plugin = useClient({ handlerHash: "content" });
+  const handler = getTransformHandler(plugin);
+
+  const makeCtx = (names: Set<string>): TransformContextLike => ({
+    emitFile(chunk: EmitFileChunk) {
+      names.add(chunk.name ?? "");
+      return `ref_${names.size - 1}`;
+    },
+  });
+
+  const codeA = `
+const label = "ok";
+
+export const first = () => {
+  "use client";
+  return label;
+};
+
+export const second = () => {
+  "use client";
+  return 2;
+};
+`;
+  const codeB = `
+// a new comment shifts every handler
+const label = "ok";
+export function Unrelated() {
+  return "edited";
+}
+
+export const first = () => {
+  "use client";
+  return label;
+};
+
+export const second = () => {
+  "use client";
+  return 3;
+};
+`;
+
+  const namesA = new Set<string>();
+  const namesB = new Set<string>();
+  await handler.call(makeCtx(namesA), codeA, "/tmp/content-hash.tsx");
+  await handler.call(makeCtx(namesB), codeB, "/tmp/content-hash.tsx");
+
+  const shared = [...namesA].filter((name) => namesB.has(name));
+  assert(namesA.size === 2 && namesB.size === 2, "each handler gets a name");
+  assert(
+    shared.length === 1,
+    "only the unchanged handler should keep its name across unrelated edits",
+  );
+});
+
+Deno.test("identical handlers across files share one client chunk", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-dedupe-" });
+  const entry = path.join(root, "entry.ts");
+  await Deno.mkdir(path.join(root, "a"));
+  await Deno.mkdir(path.join(root, "b"));
+
+  const closeHandler = `
+export const close = (event: Event) => {
+  "use client";
+  (event.currentTarget as HTMLElement).closest("dialog")?.close();
+};
+`.trimStart();
+  const relativeHandler = `
+import { label } from "./label.ts";
+
+export const announce = () => {
+  "use client";
+  console.log(label);
+};
+`.trimStart();
+
+  for (const dir of ["a", "b"]) {
+    await Deno.writeTextFile(path.join(root, dir, "dialog.ts"), closeHandler);
+    await Deno.writeTextFile(
+      path.join(root, dir, "announce.ts"),
+      relativeHandler,
+    );
+    await Deno.writeTextFile(
+      path.join(root, dir, "label.ts"),
+      `export const label = ${JSON.stringify(dir)};\n`,
+    );
+  }
+
+  await Deno.writeTextFile(
+    entry,
+    `
+export { close as closeA } from "./a/dialog.ts";
+export { close as closeB } from "./b/dialog.ts";
+export { announce as announceA } from "./a/announce.ts";
+export { announce as announceB } from "./b/announce.ts";
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ manifest: true })],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const clientChunks = (output as Array<unknown>).filter(isInlineClientChunk);
+    const closeChunks = clientChunks.filter((chunk) =>
+      chunk.code.includes("closest")
+    );
+    const announceChunks = clientChunks.filter((chunk) =>
+      chunk.code.includes("console.log")
+    );
+    assert(closeChunks.length === 1, "identical handlers should share a chunk");
+    assert(
+      announceChunks.length === 2,
+      "handlers with relative imports from different directories stay separate",
+    );
+
+    const manifestAsset = (output as Array<unknown>).map(asRecord).find(
+      (record) => record?.fileName === "use-client-manifest.json",
+    );
+    assertExists(manifestAsset, "manifest asset should be emitted");
+    const manifest = JSON.parse(String(manifestAsset.source));
+    const closeFiles = manifest.handlers
+      .filter((handler: { binding: string }) => handler.binding === "close")
+      .map((handler: { file: string }) => handler.file);
+    assert(closeFiles.length === 2, "manifest should list every call site");
+    assert(
+      closeFiles[0] === closeFiles[1],
+      "deduplicated call sites should point at the same file",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("file granularity groups a file's handlers into named exports", async () => {
+  const plugin = useClient({ granularity: "file" });
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+
+  const emitted: string[] = [];
+  const ctx: TransformContextLike = {
+    emitFile(chunk: EmitFileChunk) {
+      emitted.push(chunk.id ?? "");
+      return "ref_0";
+    },
+  };
+
+  const code = `import { format } from "./format.ts";
+
+const label = "menu";
+
+export const open = () => {
+  "use client";
+  console.log(format(label), "open");
+};
+
+export function Menu() {
+  return [
+    scope.mount(() => {
+      "use client";
+      console.log(format(label), "mount");
+    }),
+    scope.unmount(() => {
+      "use client";
+      console.log("unmount");
+    }),
+  ];
+}
+`;
+
+  const result = await handler.call(ctx, code, "/tmp/granularity-file.tsx");
+  assert(emitted.length === 1, "one client module should be emitted per file");
+
+  const clientCode = getResultCode(await loadHandler(emitted[0]));
+  assertExists(clientCode, "grouped client module should load");
+  assert(
+    clientCode.split('import { format } from "./format.ts"').length === 2,
+    "shared imports should be copied once",
+  );
+  assert(
+    clientCode.split('const label = "menu"').length === 2,
+    "shared declarations should be copied once",
+  );
+  for (const exportName of ["open", "handler", "handler2"]) {
+    assert(
+      clientCode.includes(`export const ${exportName} = `),
+      `client module should export ${exportName}`,
+    );
+  }
+  assert(
+    !clientCode.includes("export default"),
+    "grouped client module should only use named exports",
+  );
+
+  const serverCode = getResultCode(result);
+  assertExists(serverCode, "server module should be transformed");
+  for (const exportName of ["open", "handler", "handler2"]) {
+    assert(
+      serverCode.includes(
+        `new URL(import.meta.ROLLUP_FILE_URL_ref_0, import.meta.url).pathname + "#${exportName}"`,
+      ),
+      `replacement should select the ${exportName} export`,
+    );
+  }
+});
+
+Deno.test("entry granularity groups the handlers each entry reaches into its client chunk", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-entry-" });
+  const write = (name: string, source: string) =>
+    Deno.writeTextFile(path.join(root, name), source.trimStart());
+  await write(
+    "page-a.tsx",
+    `
+import { toolbar } from "./toolbar.tsx";
+import fs from "node:fs";
+
+export const onA = () => {
+  "use client";
+  console.log("a");
+};
+export const loadLazy = () => import("./lazy.tsx");
+export const page = [toolbar, fs];
+`,
+  );
+  await write(
+    "page-b.tsx",
+    `
+import { toolbar } from "./toolbar.tsx";
+
+export const onB = () => {
+  "use client";
+  console.log("b");
+};
+export const page = [toolbar];
+`,
+  );
+  await write(
+    "toolbar.tsx",
+    `
+export const toolbar = () => {
+  "use client";
+  console.log("toolbar");
+};
+`,
+  );
+  await write(
+    "lazy.tsx",
+    `
+export const onLazy = () => {
+  "use client";
+  console.log("lazy");
+};
+`,
+  );
+  await write("plain.ts", `export const plain = 1;\n`);
+
+  const bundle = await rolldown({
+    input: ["page-a.tsx", "page-b.tsx", "plain.ts"].map((name) =>
+      path.join(root, name)
+    ),
+    external: ["node:fs"],
+    plugins: [useClient({ granularity: "entry", manifest: true })],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const clientChunks = records.filter((record) =>
+      record?.type === "chunk" &&
+      String(record.fileName).endsWith(".client.js")
+    );
+    const findClientChunk = (name: string) => {
+      const chunk = clientChunks.find((record) =>
+        String(record?.fileName).startsWith(`assets/${name}.`)
+      );
+      assertExists(chunk, `${name} should have a client chunk`);
+      return String(chunk.code);
+    };
+    assertEquals(
+      clientChunks.length,
+      2,
+      "entries without handlers should not leave a client chunk",
+    );
+    const clientA = findClientChunk("page-a");
+    const clientB = findClientChunk("page-b");
+    for (const label of ["a", "lazy"]) {
+      assert(
+        clientA.includes(`console.log("${label}")`),
+        `page-a's client chunk should contain the ${label} handler`,
+      );
+    }
+    assert(
+      clientB.includes('console.log("b")') && !clientB.includes("onLazy"),
+      "page-b's client chunk should only contain handlers it reaches",
+    );
+    // Like any code two entries share, the toolbar lands in a common chunk.
+    assert(
+      /as toolbar_[0-9a-f]{8}\b/.test(clientA) &&
+        /as toolbar_[0-9a-f]{8}\b/.test(clientB),
+      "both client chunks should export the handler they share",
+    );
+
+    const serverA = records.find((record) =>
+      record?.type === "chunk" && record.fileName === "page-a.js"
+    );
+    assertExists(serverA, "page-a should be emitted");
+    const url = String(serverA.code).match(
+      /new URL\("\.\/(assets\/page-a\.[^"]+)", import\.meta\.url\)\.pathname \+ "#(onA_[0-9a-f]{8})"/,
+    );
+    assertExists(url, "handlers should point at the entry's client chunk");
+    assert(
+      clientA.includes(`as ${url[2]}`),
+      "the client chunk should export the handler under the URL's name",
+    );
+
+    const manifestAsset = records.find((record) =>
+      record?.fileName === "use-client-manifest.json"
+    );
+    assertExists(manifestAsset, "manifest should be emitted");
+    const manifest = JSON.parse(String(manifestAsset.source));
+    const onA = manifest.handlers.find((entry: Record<string, unknown>) =>
+      entry.binding === "onA"
+    );
+    assert(
+      onA?.file === url[1] && onA.exportName === url[2],
+      "manifest entries should point at the entry chunk export",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("re-transforming a file replaces its registered client modules", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+
+  const moduleIds: string[] = [];
+  const ctx: TransformContextLike = {
+    emitFile(chunk: EmitFileChunk) {
+      moduleIds.push(chunk.id ?? "");
+      return `ref_${moduleIds.length}`;
+    },
+  };
+  const source = (label: string) => `
+export const handler = () => {
+  "use client";
+  console.log("${label}");
+};
+`;
+
+  await handler.call(ctx, source("v1"), "/tmp/registry-rebuild.tsx");
+  await handler.call(ctx, source("v2"), "/tmp/registry-rebuild.tsx");
+  const [firstId, secondId] = moduleIds;
+  assert(firstId !== secondId, "edited handler should get a new module id");
+  assert(
+    getResultCode(await loadHandler(firstId)) === undefined,
+    "orphaned module from the previous transform should be dropped",
+  );
+  assert(
+    getResultCode(await loadHandler(secondId))?.includes("v2"),
+    "current module should load",
+  );
+
+  await handler.call(
+    ctx,
+    "export const handler = () => 1;\n",
+    "/tmp/registry-rebuild.tsx",
+  );
+  assert(
+    getResultCode(await loadHandler(secondId)) === undefined,
+    "removing every handler should drop the file's modules",
+  );
+});
+
+Deno.test("watch rebuilds emit client chunks for edited handlers", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-watch-" });
+  const entry = path.join(root, "entry.ts");
+  const source = (label: string) => `
+export const handler = () => {
+  "use client";
+  console.log("${label}");
+};
+`.trimStart();
+  await Deno.writeTextFile(entry, source("v1"));
+
+  const builds: string[][] = [];
+  const watcher = watch({
+    input: entry,
+    output: { dir: path.join(root, "dist") },
+    plugins: [
+      useClient(),
+      {
+        name: "collect-client-chunks",
+        generateBundle(_outputOptions, bundle) {
+          builds.push(
+            Object.values(bundle as Record<string, unknown>)
+              .filter(isInlineClientChunk)
+              .map((chunk) => chunk.code),
+          );
+        },
+      },
+    ],
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let failure: unknown = null;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("watch rebuild timed out")),
+        30_000,
+      );
+      watcher.on("event", async (event) => {
+        if (event.code === "ERROR") {
+          reject(event.error);
+        } else if (event.code === "BUNDLE_END") {
+          await event.result.close();
+        } else if (event.code === "END") {
+          if (builds.length === 1) {
+            await Deno.writeTextFile(entry, source("v2"));
+          } else {
+            resolve();
+          }
+        }
+      });
+    });
+  } catch (error) {
+    failure = error;
+  } finally {
+    clearTimeout(timer);
+  }
+  const closed = await Promise.race([
+    watcher.close().then(() => true, (error) => {
+      failure ??= error;
+      return true;
+    }),
+    new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), 10_000);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (!closed) {
+    // The pending close keeps rolldown busy and would hang whichever test
+    // runs next, so end the run here with the original failure, if any.
+    console.error(failure ?? "", "\nclosing the watcher timed out");
+    Deno.exit(1);
+  }
+  if (failure !== null) throw failure;
+
+  const [first, second] = builds;
+  assert(
+    first.length === 1 && first[0].includes('"v1"'),
+    "initial build should emit the original handler",
+  );
+  assert(
+    second.length === 1 && second[0].includes('"v2"') &&
+      !second[0].includes('"v1"'),
+    "rebuild should emit the edited handler",
+  );
+});
+
+Deno.test("cache reuses extraction results across plugin instances", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "use-client-cache-" });
+  const code = `import { format } from "./format.ts";
+
+export const handler = () => {
+  "use client";
+  console.log(format(missing));
+};
+`;
+
+  const run = async (source: string) => {
+    const messages: string[] = [];
+    const warnings: string[] = [];
+    const moduleIds: string[] = [];
+    const plugin = useClient({
+      cache: { dir },
+      debug: (message) => messages.push(message),
+    });
+    const ctx: TransformContextLike = {
+      warn(message) {
+        warnings.push(message);
+      },
+      emitFile(chunk: EmitFileChunk) {
+        moduleIds.push(chunk.id ?? "");
+        return "ref_0";
+      },
+    };
+    const result = await getTransformHandler(plugin).call(
+      ctx,
+      source,
+      "/tmp/cache-entry.tsx",
+    );
+    const loaded = await getLoadHandler(plugin)(moduleIds[0] ?? "");
+    return {
+      hit: messages.some((message) => message.startsWith("cache hit")),
+      parsed: messages.some((message) => message.startsWith("processing")),
+      warnings,
+      code: getResultCode(result),
+      clientCode: getResultCode(loaded),
+    };
+  };
+
+  const cold = await run(code);
+  const warm = await run(code);
+  const edited = await run(code.replace("console.log", "console.info"));
+
+  assert(!cold.hit && cold.parsed, "first build should extract handlers");
+  assert(warm.hit && !warm.parsed, "unchanged file should skip parsing");
+  assert(warm.code === cold.code, "cached server code should match");
+  assert(
+    warm.clientCode !== undefined && warm.clientCode === cold.clientCode,
+    "cached client module should load from the registry",
+  );
+  assert(
+    cold.warnings.length === 1 && warm.warnings[0] === cold.warnings[0],
+    "unresolved warnings should be replayed on cache hits",
+  );
+  assert(!edited.hit, "edited file should miss the cache");
+  assert(
+    edited.clientCode?.includes("console.info"),
+    "edited file should produce the new handler",
+  );
+});
+
+Deno.test("cache key version follows the package version", async () => {
+  const config = JSON.parse(
+    await Deno.readTextFile(new URL("../../deno.json", import.meta.url)),
+  );
+  assert(
+    config.version === PLUGIN_VERSION,
+    "PLUGIN_VERSION should match deno.json",
+  );
+});
+
+Deno.test("use server actions are hoisted into server chunks with a manifest", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-server-actions-" });
+  const entry = path.join(root, "entry.tsx");
+  const db = path.join(root, "db.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+import { save } from "./db.ts";
+
+const table = "todos";
+
+export function TodoForm() {
+  const submit = async (form: FormData) => {
+    "use server";
+    await save(table, form.get("title"));
+  };
+  return submit;
+}
+
+export async function remove(id: string) {
+  "use server";
+  await save(table, id);
+}
+`.trimStart(),
+  );
+  await Deno.writeTextFile(
+    db,
+    `
+export async function save(table: string, value: unknown) {
+  return [table, value];
+}
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    cwd: root,
+    plugins: [useClient({ actions: { endpoint: "/rpc" } })],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const manifestAsset = records.find((record) =>
+      record?.fileName === "use-server-manifest.json"
+    );
+    assertExists(manifestAsset, "action manifest should be emitted");
+    const manifest = JSON.parse(String(manifestAsset.source));
+    const entries = Object.entries(manifest.actions) as Array<
+      [string, Record<string, unknown>]
+    >;
+    assert(entries.length === 2, "manifest should list both actions");
+
+    const serverChunk = records.find((record) =>
+      record?.type === "chunk" && record.facadeModuleId === entry
+    );
+    assertExists(serverChunk, "entry chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(!serverCode.includes("use server"), "actions should be hoisted out");
+
+    for (const [id, action] of entries) {
+      assert(
+        id === createActionId("entry.tsx", String(action.binding), 0),
+        "action ids should hash the source path relative to the rolldown cwd",
+      );
+      assert(action.source === entry, "manifest should record the source");
+      assert(
+        serverCode.includes(`url: "/rpc/${id}"`),
+        "call sites should reference the action endpoint",
+      );
+      const actionChunk = records.find((record) =>
+        record?.fileName === action.file
+      );
+      assertExists(actionChunk, "manifest should point at an emitted chunk");
+      assert(
+        String(action.file).startsWith("actions/") &&
+          String(action.file).endsWith(".server.js"),
+        "action chunks should use the server file name pattern",
+      );
+      const actionCode = String(actionChunk.code);
+      assert(
+        actionCode.includes('"todos"') && actionCode.includes("save"),
+        "action chunk should carry its imports and declarations",
+      );
+    }
+    assert(
+      entries.some(([, action]) => action.binding === "remove") &&
+        entries.some(([, action]) => action.binding === "submit"),
+      "manifest should record bindings",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("action ids stay stable when the action body changes", async () => {
+  const run = async (body: string, root?: string) => {
+    const plugin = useClient({ actions: root ? { root } : true });
+    const ctx: TransformContextLike = {
+      warn() {},
+      emitFile() {
+        return "ref_0";
+      },
+    };
+    const result = await getTransformHandler(plugin).call(
+      ctx,
+      `
+export async function submit(form) {
+  "use server";
+  ${body}
+}
+`,
+      "/tmp/actions/inline-action-id.tsx",
+    );
+    return getResultCode(result)?.match(/id: "([0-9a-f]+)"/)?.[1];
+  };
+
+  const first = await run("return form;");
+  const second = await run("return form.get('title');");
+  assertExists(first, "action reference should carry an id");
+  assert(first === second, "editing the body should keep the action id");
+  assert(
+    await run("return form;", "/tmp/actions") ===
+      createActionId("inline-action-id.tsx", "submit", 0),
+    "action ids should be relative to actions.root",
+  );
+});
+
+Deno.test("server actions report captured locals but not server globals", async () => {
+  const plugin = useClient({ actions: true });
+  const warnings: string[] = [];
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile() {
+      return "ref_0";
+    },
+  };
+
+  await getTransformHandler(plugin).call(
+    ctx,
+    `
+export function Page({ userId }) {
+  return async () => {
+    "use server";
+    console.log(process.env.DATABASE_URL, userId);
+  };
+}
+`,
+    "/tmp/inline-action-captured.tsx",
+  );
+
+  assert(
+    warnings.length === 1 &&
+      warnings[0].includes(
+        "server action in /tmp/inline-action-captured.tsx references values that are not available in the server action module: userId",
+      ),
+    "only the captured prop should be reported",
+  );
+});
+
+Deno.test("use server functions stay untouched unless actions are enabled", async () => {
+  const plugin = useClient();
+  const code = `
+export async function submit() {
+  "use server";
+}
+`;
+  const result = await getTransformHandler(plugin).call(
+    { warn() {}, emitFile: () => "ref_0" },
+    code,
+    "/tmp/inline-action-disabled.tsx",
+  );
+  assert(
+    getResultCode(result) === undefined,
+    "file without extracted functions should not be rewritten",
+  );
+});
+
+Deno.test("use worker functions become worker entries behind a script URL", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-worker-" });
+  const entry = path.join(root, "entry.ts");
+  const csv = path.join(root, "csv.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+import { parseRows } from "./csv.ts";
+
+const separator = ",";
+
+export const parse = (text: string) => {
+  "use worker";
+  return parseRows(text, separator);
+};
+`.trimStart(),
+  );
+  await Deno.writeTextFile(
+    csv,
+    `
+export function parseRows(text: string, separator: string) {
+  return text.split("\\n").map((line) => line.split(separator));
+}
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ manifest: true })],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const workerChunk = records.find((record) =>
+      record?.type === "chunk" &&
+      String(record.facadeModuleId).startsWith("\0inline-worker:")
+    );
+    assertExists(workerChunk, "expected a worker entry chunk");
+    const workerFileName = String(workerChunk.fileName);
+    assert(
+      workerFileName.startsWith("assets/") &&
+        workerFileName.endsWith(".worker.js"),
+      "worker entries should use the worker file name pattern",
+    );
+    const workerCode = String(workerChunk.code);
+    assert(
+      workerCode.includes('addEventListener("message"') &&
+        workerCode.includes("postMessage"),
+      "worker entry should wrap the function in the message protocol",
+    );
+    assert(
+      workerCode.includes("parseRows") && workerCode.includes('","'),
+      "worker entry should carry its imports and declarations",
+    );
+
+    const serverChunk = records.find((record) =>
+      record?.type === "chunk" && record.facadeModuleId === entry
+    );
+    assertExists(serverChunk, "entry chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(
+      !serverCode.includes("use worker") && serverCode.includes(workerFileName),
+      "the function should be replaced with the worker script URL",
+    );
+
+    const manifestAsset = records.find((record) =>
+      record?.fileName === "use-client-manifest.json"
+    );
+    assertExists(manifestAsset, "manifest asset should be emitted");
+    assert(
+      JSON.parse(String(manifestAsset.source)).handlers.length === 0,
+      "worker entries are not client handlers",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("worker functions are checked against worker globals", async () => {
+  const plugin = useClient({ env: { globals: { add: ["analytics"] } } });
+  const warnings: string[] = [];
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile() {
+      return "ref_0";
+    },
+  };
+
+  await getTransformHandler(plugin).call(
+    ctx,
+    `
+export const crunch = async (items) => {
+  "use worker";
+  analytics.track(items.length);
+  postMessage(await crypto.subtle.digest("SHA-256", items));
+  return document.title;
+};
+`,
+    "/tmp/inline-worker-globals.ts",
+  );
+
+  assert(
+    warnings.length === 1 &&
+      warnings[0].includes(
+        "worker function in /tmp/inline-worker-globals.ts references values that are not available in the worker bundle: document",
+      ),
+    "only DOM-only globals should be reported",
+  );
+});
+
+Deno.test("use client components render on the server inside islands", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-island-" });
+  const entry = path.join(root, "entry.tsx");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+export function Counter({ start }: { start: number }) {
+  "use client";
+  return <button>{start}</button>;
+}
+
+export const page = <Counter start={1} />;
+export const render = [Counter].map((component) => component({ start: 2 }));
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient({ manifest: { fileName: "client-manifest.json" } })],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const clientChunk = records.find(isInlineClientChunk);
+    assertExists(clientChunk, "the component should become a client chunk");
+    assert(
+      String(clientChunk.code).includes("start"),
+      "client chunk should contain the component",
+    );
+
+    const serverChunk = records.find((record) =>
+      record?.facadeModuleId === entry
+    );
+    assertExists(serverChunk, "server chunk should be emitted");
+    const serverCode = String(serverChunk.code);
+    assert(
+      serverCode.includes('"use-client-island"') &&
+        serverCode.includes(String(asRecord(clientChunk)?.fileName)),
+      "server component should render an island placeholder with the URL",
+    );
+    assert(
+      !serverCode.includes('"use client"'),
+      "server component should drop the directive",
+    );
+
+    const manifestAsset = records.find((record) =>
+      record?.fileName === "client-manifest.json"
+    );
+    assertExists(manifestAsset, "manifest asset should be emitted");
+    const manifest = JSON.parse(String(manifestAsset.source));
+    assert(
+      manifest.handlers.length === 1 && manifest.handlers[0].island === true,
+      "manifest should mark the island",
+    );
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("lowercase use client functions with JSX are not islands", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-island-name-" });
+  const entry = path.join(root, "entry.tsx");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+export function renderIcon() {
+  "use client";
+  return <svg />;
+}
+
+export const icon = renderIcon();
+`.trimStart(),
+  );
+
+  await assertRejects(
+    async () => {
+      const bundle = await rolldown({ input: entry, plugins: [useClient()] });
+      try {
+        await bundle.generate({ format: "esm" });
+      } finally {
+        await bundle.close();
+      }
+    },
+    Error,
+    "is used as a callable value",
+  );
+});
+
+Deno.test("handlers import top-level handlers they reference", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-compose-" });
+  const entry = path.join(root, "entry.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+const log = (message: string) => {
+  "use client";
+  console.log("logged", message);
+};
+
+function retry(attempts: number) {
+  "use client";
+  if (attempts > 0) retry(attempts - 1);
+}
+
+export const open = () => {
+  "use client";
+  log("open");
+  retry(3);
+};
+
+export const handlers = [log, retry, open];
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient()],
+  });
+
+  try {
+    const { output } = await bundle.generate({ format: "esm" });
+    const records = (output as Array<unknown>).map(asRecord);
+    const clientChunks = records.filter(isInlineClientChunk);
+    assert(clientChunks.length === 3, "each handler should get a chunk");
+    const logChunks = clientChunks.filter((chunk) =>
+      String(chunk.code).includes('"logged"')
+    );
+    assert(logChunks.length === 1, "log should not be copied into open");
+    const openChunk = clientChunks.find((chunk) =>
+      String(chunk.code).includes('"open"')
+    );
+    assertExists(openChunk, "open should get a chunk");
+    const openImports = asRecord(openChunk)?.imports;
+    assert(
+      Array.isArray(openImports) &&
+        openImports.includes(asRecord(logChunks[0])?.fileName),
+      "open's chunk should import log's chunk",
+    );
+    for (const chunk of clientChunks) {
+      assert(
+        !String(chunk.code).includes("__INLINE_CLIENT"),
+        "client chunks should call handlers, not URLs",
+      );
+    }
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("file granularity keeps referenced handlers in scope", async () => {
+  const plugin = useClient({ granularity: "file" });
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+
+  const emitted: string[] = [];
+  const ctx: TransformContextLike = {
+    emitFile(chunk: EmitFileChunk) {
+      emitted.push(chunk.id ?? "");
+      return "ref_0";
+    },
+  };
+
+  const code = `export function Menu() {
+  return scope.mount(() => {
+    "use client";
+    toggle();
+  });
+}
+
+const toggle = () => {
+  "use client";
+  console.log("toggle");
+};
+`;
+
+  await handler.call(ctx, code, "/tmp/granularity-compose.tsx");
+  assert(emitted.length === 1, "one client module should be emitted per file");
+  const clientCode = getResultCode(await loadHandler(emitted[0]));
+  assertExists(clientCode, "grouped client module should load");
+  assert(
+    clientCode.includes("export const toggle = ") &&
+      !clientCode.includes("import toggle"),
+    "the referenced handler should keep its binding as export name",
+  );
+  assert(
+    clientCode.split('"use client"').length === 2,
+    "the referenced handler should not be copied as a declaration",
+  );
+});
+
+Deno.test("declarations used by several handlers live in a shared module", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-shared-" });
+  const entry = path.join(root, "entry.ts");
+
+  await Deno.writeTextFile(
+    entry,
+    `
+const cache = new Map<string, number>();
+let activeTab = "first";
+
+export const select = (tab: string) => {
+  "use client";
+  cache.set(tab, (cache.get(tab) ?? 0) + 1);
+  activeTab = tab;
+  ({ activeTab } = { activeTab: activeTab.toUpperCase() });
+};
+
+export const read = () => {
+  "use client";
+  return [activeTab, cache.get("second")];
+};
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient()],
+  });
+
+  try {
+    const outDir = path.join(root, "dist");
+    const { output } = await bundle.write({ dir: outDir, format: "esm" });
+    const clientChunks = (output as Array<unknown>).filter(isInlineClientChunk);
+    const stateChunks = clientChunks.filter((chunk) =>
+      chunk.code.includes("new Map")
+    );
+    assert(stateChunks.length === 1, "state should be declared once");
+    assert(
+      /entry\.[0-9a-f]{12}\.shared\.tsx$/.test(stateChunks[0].facadeModuleId),
+      "state should live in the shared module",
+    );
+
+    const importHandler = async (marker: string) => {
+      const chunk = clientChunks.find((chunk) =>
+        chunk.code.includes(marker) && chunk !== stateChunks[0]
+      );
+      assertExists(chunk, `expected a chunk containing ${marker}`);
+      const url = pathToFileURL(
+        path.join(outDir, String(asRecord(chunk)?.fileName)),
+      );
+      return (await import(url.href)).default;
+    };
+    const select = await importHandler("toUpperCase");
+    const read = await importHandler('"second"');
+    select("second");
+    assertEquals(read(), ["SECOND", 1]);
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("files with the same base name keep separate shared modules", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-shared-names-" });
+  const entry = path.join(root, "entry.ts");
+  for (const extension of ["ts", "tsx"]) {
+    await Deno.writeTextFile(
+      path.join(root, `counter.${extension}`),
+      `
+let count = 0;
+
+export const bump_${extension} = () => {
+  "use client";
+  count += ${extension === "ts" ? 2 : 3};
+};
+
+export const read_${extension} = () => {
+  "use client";
+  return ["${extension}", count];
+};
+`.trimStart(),
+    );
+  }
+  await Deno.writeTextFile(
+    entry,
+    `
+import { bump_ts, read_ts } from "./counter.ts";
+import { bump_tsx, read_tsx } from "./counter.tsx";
+
+export const urls = [bump_ts, read_ts, bump_tsx, read_tsx];
+`.trimStart(),
+  );
+
+  const bundle = await rolldown({
+    input: entry,
+    plugins: [useClient()],
+  });
+
+  try {
+    const outDir = path.join(root, "dist");
+    const { output } = await bundle.write({ dir: outDir, format: "esm" });
+    const clientChunks = (output as Array<unknown>).filter(isInlineClientChunk);
+    const stateChunks = clientChunks.filter((chunk) =>
+      /\.shared\.tsx$/.test(chunk.facadeModuleId)
+    );
+    assertEquals(
+      new Set(stateChunks.map((chunk) => chunk.facadeModuleId)).size,
+      2,
+      "each file should get its own shared module",
+    );
+
+    const importHandler = async (marker: string) => {
+      const chunk = clientChunks.find((chunk) =>
+        chunk.code.includes(marker) && !stateChunks.includes(chunk)
+      );
+      assertExists(chunk, `expected a chunk containing ${marker}`);
+      const url = pathToFileURL(
+        path.join(outDir, String(asRecord(chunk)?.fileName)),
+      );
+      return (await import(url.href)).default;
+    };
+    const bumpTs = await importHandler("+= 2");
+    const readTs = await importHandler('"ts"');
+    const readTsx = await importHandler('"tsx"');
+    bumpTs();
+    bumpTs();
+    assertEquals(readTs(), ["ts", 4]);
+    assertEquals(readTsx(), ["tsx", 0]);
+  } finally {
+    await bundle.close();
+  }
+});
+
+Deno.test("copied declarations with side effects are reported", async () => {
+  const code = `import { createPool } from "./db.ts";
+import { env } from "./env.ts";
+import { createContext } from "./context.ts";
+
+const db = createPool(env.DATABASE_URL);
+const url = env.PUBLIC_URL;
+const cache = new Map();
+const theme = /* @__PURE__ */ createTheme();
+const context = createContext(null);
+const limits = { min: 0, tags: ["a"], format: (n: number) => \`\${n}\` };
+
+export const handler = () => {
+  "use client";
+  console.log(db, url, cache, theme, context, limits);
+};
+`;
+
+  const warnings: string[] = [];
+  const warnPlugin = useClient({
+    unresolved: "ignore",
+    sideEffects: { pure: ["createContext"] },
+  });
+  await getTransformHandler(warnPlugin).call(
+    {
+      warn(message: string) {
+        warnings.push(message);
+      },
+      emitFile: () => "ref_0",
+    },
+    code,
+    "/tmp/side-effects.tsx",
+  );
+  assertEquals(
+    warnings.map((message) => /declaration of (\w+)/.exec(message)?.[1]),
+    ["db", "url"],
+  );
+  assert(
+    warnings[0].includes("call to createPool") &&
+      warnings[1].includes('member access on import "env"'),
+    "warnings should name the side effect",
+  );
+
+  const errorPlugin = useClient({
+    unresolved: "ignore",
+    sideEffects: { report: "error" },
+  });
+  await assertRejects(
+    async () => {
+      await getTransformHandler(errorPlugin).call(
+        { emitFile: () => "ref_0" },
+        code,
+        "/tmp/side-effects.tsx",
+      );
+    },
+    Error,
+    "may have side effects",
+  );
+});
+
+Deno.test("mutable top-level state copied to the client is reported", async () => {
+  const code = `let counter = 0;
+var label = "count";
+let activeTab = "home";
+function format(value: number) {
+  return String(value);
+}
+const limit = 10;
+
+export function increment() {
+  counter += 1;
+  format = (value: number) => \`#\${value}\`;
+}
+
+export const handler = () => {
+  "use client";
+  console.log(counter, label, format(limit));
+};
+
+export const select = () => {
+  "use client";
+  activeTab = activeTab === "home" ? "settings" : "home";
+};
+`;
+
+  const warnings: string[] = [];
+  await getTransformHandler(useClient()).call(
+    {
+      warn(message: string) {
+        warnings.push(message);
+      },
+      emitFile: () => "ref_0",
+    },
+    code,
+    "/tmp/mutable-state.tsx",
+  );
+  const snapshots = warnings.filter((message) => message.includes("snapshot"));
+  assertEquals(
+    snapshots.map((message) => /top-level (.*?) in /.exec(message)?.[1]),
+    [
+      "declaration of counter (reassigned by server code: counter)",
+      "`var` declaration of label",
+      "declaration of format (reassigned by server code: format)",
+    ],
+  );
+
+  await assertRejects(
+    async () => {
+      await getTransformHandler(useClient({ unresolved: "error" })).call(
+        { emitFile: () => "ref_0" },
+        code,
+        "/tmp/mutable-state.tsx",
+      );
+    },
+    Error,
+    "snapshot of its value at build time",
+  );
+
+  // State only client code assigns is the shared module's singleton.
+  await getTransformHandler(useClient({ strict: true })).call(
+    { emitFile: () => "ref_0" },
+    code.slice(code.indexOf("let activeTab"), code.indexOf("function format")) +
+      code.slice(code.indexOf("export const select")),
+    "/tmp/mutable-state.tsx",
+  );
+});
+
+Deno.test("a captured let the client only reads is reported", async () => {
+  const warnings: string[] = [];
+  await getTransformHandler(useClient()).call(
+    {
+      warn(message: string) {
+        warnings.push(message);
+      },
+      emitFile: () => "ref_0",
+    },
+    `let theme = "dark";
+
+export const handler = () => {
+  "use client";
+  document.body.dataset.theme = theme;
+};
+`,
+    "/tmp/captured-let.tsx",
+  );
+  assertEquals(
+    warnings.filter((message) => message.includes("snapshot")).map((message) =>
+      /top-level (.*?) in /.exec(message)?.[1]
+    ),
+    ["`let` declaration of theme"],
+  );
+});
+
+Deno.test("server-only modules in a client chunk graph fail the build", async () => {
+  const root = await Deno.makeTempDir({ prefix: "use-client-server-only-" });
+  const entry = path.join(root, "entry.ts");
+  await Deno.writeTextFile(
+    path.join(root, "db.ts"),
+    `import "server-only";\nexport const query = (sql: string) => sql;\n`,
+  );
+  await Deno.writeTextFile(
+    path.join(root, "format.ts"),
+    `import { query } from "./db.ts";\nexport const format = (value: string) => query(value);\n`,
+  );
+  await Deno.writeTextFile(
+    entry,
+    `
+import { format } from "./format.ts";
+
+export const handler = () => {
+  "use client";
+  return format("select 1");
+};
+`.trimStart(),
+  );
+
+  const build = async (serverOnly?: boolean) => {
+    const bundle = await rolldown({
+      input: entry,
+      external: ["server-only"],
+      plugins: [useClient({ serverOnly })],
+    });
+    try {
+      await bundle.generate({ format: "esm" });
+    } finally {
+      await bundle.close();
+    }
+  };
+
+  await assertRejects(
+    async () => {
+      await build(true);
+    },
+    Error,
+    `${path.join(root, "format.ts")} -> ${
+      path.join(root, "db.ts")
+    } -> server-only`,
+  );
+  await build();
+});
+
+Deno.test("public env reads are replaced with build-time values", async () => {
+  const plugin = useClient({
+    clientEnv: {
+      values: { PUBLIC_API_URL: "https://api.example.com" },
+    },
+  });
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+  const warnings: string[] = [];
+  let moduleId = "";
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  await handler.call(
+    ctx,
+    `
+const endpoint = \`\${process.env.PUBLIC_API_URL}/events\`;
+
+export const track = () => {
+  "use client";
+  return fetch(endpoint, { mode: import.meta.env.PUBLIC_MODE });
+};
+`,
+    "/tmp/inline-env-public.tsx",
+  );
+  const clientCode = getResultCode(await loadHandler(moduleId));
+  assertExists(clientCode);
+  assert(
+    clientCode.includes('`${"https://api.example.com"}/events`') &&
+      clientCode.includes("{ mode: undefined }") &&
+      !clientCode.includes("env."),
+    `public env reads should be inlined: ${clientCode}`,
+  );
+  assertEquals(warnings, []);
+});
+
+Deno.test("non-public env reads and secret literals fail the build", async () => {
+  const plugin = useClient({
+    clientEnv: {
+      values: { STRIPE_SECRET_KEY: "sk_live_0123456789" },
+    },
+  });
+  const ctx = { warn() {}, emitFile: () => "ref_0" };
+  const transform = (code: string, id: string) =>
+    getTransformHandler(plugin).call(ctx, code, id);
+
+  await assertRejects(
+    async () => {
+      await transform(
+        `
+export const load = () => {
+  "use client";
+  return fetch(process.env.DATABASE_URL);
+};
+`,
+        "/tmp/inline-env-private.tsx",
+      );
+    },
+    Error,
+    'inline handler in /tmp/inline-env-private.tsx reads process.env.DATABASE_URL in a client or worker chunk. Only static reads of NODE_ENV and of environment variables starting with "PUBLIC_" are allowed there',
+  );
+  await assertRejects(
+    async () => {
+      await transform(
+        `
+const stripe = { key: "sk_live_0123456789" };
+
+export const pay = () => {
+  "use client";
+  return stripe.key;
+};
+`,
+        "/tmp/inline-env-secret.tsx",
+      );
+    },
+    Error,
+    "top-level declaration of stripe in /tmp/inline-env-secret.tsx contains the value of the environment variable STRIPE_SECRET_KEY",
+  );
+});
+
+Deno.test("client modules copy only the used specifiers and declarators", async () => {
+  const plugin = useClient();
+  const handler = getTransformHandler(plugin);
+  const loadHandler = getLoadHandler(plugin);
+  const warnings: string[] = [];
+  let moduleId = "";
+  const ctx: TransformContextLike = {
+    warn(message: string) {
+      warnings.push(message);
+    },
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  await handler.call(
+    ctx,
+    `
+import React, { useState, useEffect as useServerEffect } from "react";
+import { format, connect } from "./lib.ts";
+import * as z from "zod";
+
+const label = "Save", pool = connect();
+const settings = { theme: "dark", token: "x" };
+const { theme, token } = settings, [first, , third] = ["a", "b", "c"];
+const { size, ...restOfSettings } = settings;
+
+export const save = () => {
+  "use client";
+  const [state] = useState(theme);
+  const id = React.useId();
+  return <button id={id} title={format(third)}>{label}{state}{restOfSettings.theme}</button>;
+};
+`,
+    "/tmp/inline-precise-copies.tsx",
+  );
+  const clientCode = getResultCode(await loadHandler(moduleId));
+  assertExists(clientCode);
+  for (
+    const expected of [
+      'import React, { useState } from "react";',
+      'import { format } from "./lib.ts";',
+      'const label = "Save";',
+      'const settings = { theme: "dark", token: "x" };',
+      'const { theme } = settings, [, , third] = ["a", "b", "c"];',
+      "const { size, ...restOfSettings } = settings;",
+    ]
+  ) {
+    assert(
+      clientCode.includes(expected),
+      `client module should contain ${expected}: ${clientCode}`,
+    );
+  }
+  for (const unexpected of ["connect", "pool", "useServerEffect", "zod"]) {
+    assert(
+      !clientCode.includes(unexpected),
+      `client module should not contain ${unexpected}: ${clientCode}`,
+    );
+  }
+  assertEquals(warnings, []);
+});
+
+Deno.test("renamed and nested destructured bindings keep their keys", async () => {
+  const plugin = useClient();
+  let moduleId = "";
+  const ctx: TransformContextLike = {
+    warn() {},
+    emitFile(chunk: EmitFileChunk) {
+      moduleId = chunk.id ?? "";
+      return "ref_0";
+    },
+  };
+
+  await getTransformHandler(plugin).call(
+    ctx,
+    `
+const config = { x: 1, y: 2, nested: { b: 3 }, c: 4 };
+const fallback = { b: 0 };
+const { x, y: why, nested: { b } = fallback, ["c"]: sea } = config;
+
+export const log = () => {
+  "use client";
+  console.log(why, b);
+};
+
+export const serverValue = x + sea;
+`,
+    "/tmp/inline-renamed-destructuring.tsx",
+  );
+  const clientCode = getResultCode(await getLoadHandler(plugin)(moduleId));
+  assertExists(clientCode);
+  for (
+    const expected of [
+      "const fallback = { b: 0 };",
+      "const { y: why, nested: { b } = fallback } = config;",
+    ]
+  ) {
+    assert(
+      clientCode.includes(expected),
+      `client module should contain ${expected}: ${clientCode}`,
+    );
+  }
+  assert(
+    !clientCode.includes("sea") && !clientCode.includes("x,"),
+    `unused bindings should not be copied: ${clientCode}`,
+  );
+});
+
+Deno.test("env reads are copied verbatim unless clientEnv is enabled", async () => {
+  const load = async (plugin: ReturnType<typeof useClient>, read: string) => {
+    let moduleId = "";
+    await getTransformHandler(plugin).call(
+      {
+        warn() {},
+        emitFile(chunk: EmitFileChunk) {
+          moduleId = chunk.id ?? "";
+          return "ref_0";
+        },
+      },
+      `
+export const debug = () => {
+  "use client";
+  if (process.env.NODE_ENV !== "production") console.log(${read});
+};
+`,
+      "/tmp/inline-env-default.tsx",
+    );
+    return getResultCode(await getLoadHandler(plugin)(moduleId)) ?? "";
+  };
+  const clientEnv = { values: { NODE_ENV: "production" } };
+
+  const verbatim = await load(useClient(), "process.env.DEBUG");
+  assert(
+    verbatim.includes('process.env.NODE_ENV !== "production"') &&
+      verbatim.includes("console.log(process.env.DEBUG)"),
+    `env reads should be left alone by default: ${verbatim}`,
+  );
+  await assertRejects(
+    async () => {
+      await load(useClient({ clientEnv }), "process.env.DEBUG");
+    },
+    Error,
+    "reads process.env.DEBUG",
+  );
+  const inlined = await load(useClient({ clientEnv }), '"debug"');
+  assert(
+    inlined.includes('if ("production" !== "production")'),
+    `NODE_ENV should be inlined: ${inlined}`,
+  );
+});
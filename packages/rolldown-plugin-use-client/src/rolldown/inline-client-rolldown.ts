@@ -1,157 +1,228 @@
-import { exclude, id, include } from "@rolldown/pluginutils";
+import { exclude, id, include, interpreter } from "@rolldown/pluginutils";
 import type { TopLevelFilterExpression } from "@rolldown/pluginutils";
 import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
 import path from "node:path";
-import type { Plugin, TransformPluginContext } from "rolldown";
-import { parseSync, printSync } from "@swc/core";
+import type {
+  OutputOptions,
+  Plugin,
+  PluginContext,
+  PreRenderedChunk,
+  TransformPluginContext,
+} from "rolldown";
+import { parseSync } from "@swc/core";
 import {
+  createHandlerReference,
   createInlineClientRegistry,
+  HANDLER_REFERENCE_PREFIX,
   INLINE_ID_PREFIX,
+  getInlineIdPrefix,
+  INLINE_SERVER_ID_PREFIX,
+  INLINE_WORKER_ID_PREFIX,
+  type InlineClientModule,
+  isInlineModuleId,
   parseInlineModulePath,
 } from "./inline-client-registry.ts";
-
-type SwcSpan = { start?: number; end?: number; ctxt?: number };
-
-type SwcNode = {
-  type?: string;
-  span?: SwcSpan;
-  start?: number;
-  end?: number;
-  [key: string]: unknown;
-};
-
-type SwcProgram = SwcNode & { body?: SwcNode[] };
+import {
+  createInlineClientManifest,
+  getManifestFileName,
+  type InlineClientHandlerInfo,
+  type InlineClientManifestRecord,
+  MANIFEST_MODULE_ID,
+  MANIFEST_PLACEHOLDER,
+  RESOLVED_MANIFEST_MODULE_ID,
+} from "./inline-client-manifest.ts";
+import {
+  createFileNamePlaceholder,
+  createReplacementExpression,
+  hasReplacementPlaceholders,
+  type InlineClientReplacement,
+  resolveReplacementPlaceholders,
+} from "./inline-client-replacement.ts";
+import {
+  createMappedCodeBuilder,
+  type MappedCodeBuilder,
+} from "./inline-client-sourcemap.ts";
+import {
+  analyzeScopes,
+  collectDeclaredFromPattern,
+  getBindingReferencesOutside,
+  getFreeVariables,
+  getIdentifierValue,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  isWithin,
+  type ScopeAnalysis,
+  type SwcNode,
+  type SwcProgram,
+} from "./inline-client-scope.ts";
+import {
+  getSerializableCaptures,
+  isWriteTarget,
+} from "./inline-client-captures.ts";
+import {
+  createCacheKey,
+  createInlineClientCache,
+  type InlineClientFileHandler,
+  type InlineClientFileModule,
+  type InlineClientFileResult,
+  type InlineClientFileRewrite,
+  type InlineModuleKind,
+} from "./inline-client-cache.ts";
+import {
+  createActionId,
+  createActionReferenceExpression,
+  createServerActionManifest,
+  DEFAULT_ACTIONS_ENDPOINT,
+  DEFAULT_ACTIONS_MANIFEST_FILE_NAME,
+  type InlineServerActionRecord,
+  type InlineServerActionsOptions,
+} from "./inline-server-actions.ts";
+import {
+  DEFAULT_PURE_CALLEES,
+  findDeclarationSideEffect,
+  hasPureAnnotation,
+  type PurityContext,
+} from "./inline-client-purity.ts";
+import {
+  createServerOnlyMatcher,
+  findServerOnlyChain,
+} from "./inline-client-server-only.ts";
+import {
+  createClientEnvPolicy,
+  findEnvUsage,
+  getPublicEnvReplacement,
+  type InlineClientEnvAccessOptions,
+  PUBLIC_ENV_NAMES,
+} from "./inline-client-env-access.ts";
+import {
+  createSharedStateSource,
+  createSharedWriteTarget,
+  findSharedItems,
+  findSharedWrites,
+  SHARED_STATE_BINDING,
+} from "./inline-client-shared.ts";
+import {
+  createIslandWrapper,
+  isIslandComponent,
+} from "./inline-client-islands.ts";
+import {
+  CLIENT_URL_ID_PREFIX,
+  CLIENT_URL_QUERY,
+  createClientModuleId,
+  getExportNames,
+  getModuleDirectives,
+  getModuleType,
+  hasClientImportAttribute,
+  isClientModuleId,
+  isSourceFile,
+  maybeContainsClientImportAttribute,
+} from "./inline-client-modules.ts";
+import {
+  createEntryClientModuleId,
+  createEntryClientSource,
+  createEntryRefPlaceholder,
+  type EntryClientFile,
+  getEntryExportName,
+  getEntryFileKey,
+  parseEntryRefPlaceholder,
+} from "./inline-client-entries.ts";
+import {
+  createWorkerProtocolSource,
+  WORKER_HANDLER_BINDING,
+} from "./inline-worker.ts";
+import {
+  createClientGlobals,
+  type InlineClientEnvOptions,
+} from "../env/inline-client-env.ts";
 
 type Replacement = { start: number; end: number; replacement: string };
 
-type ImportInfo = { node: SwcNode; code: string };
+type ImportInfo = {
+  /** Import specifier; each value binding of a statement has its own entry. */
+  node: SwcNode;
+  statement: SwcNode;
+  source: string | null;
+  /** Span of `statement`. */
+  start: number;
+  end: number;
+  /** Source text of the specifier, such as `a as b` or `* as ns`. */
+  text: string;
+  /** Source text from the module specifier to the end of the statement. */
+  from: string;
+  /** Number of value specifiers in `statement`. */
+  siblings: number;
+};
 type DeclarationInfo = {
+  /**
+   * Node the bindings come from: the declaration itself, or for variables a
+   * declarator or an element of its destructuring pattern.
+   */
   node: SwcNode;
-  code: string;
+  /** Declaration statement, without `export`. */
+  declaration: SwcNode;
+  /** Declarator of a variable binding, `null` for other declarations. */
+  declarator: SwcNode | null;
+  /** Span of `declaration`. */
+  start: number;
+  end: number;
   declared: Set<string>;
   dependencies: Set<string>;
 };
-
-const GLOBALS = new Set([
-  "undefined",
-  "NaN",
-  "Infinity",
-  "global",
-  "console",
-  "window",
-  "document",
-  "Document",
-  "DocumentFragment",
-  "Element",
-  "Node",
-  "EventTarget",
-  "self",
-  "globalThis",
-  "navigator",
-  "history",
-  "location",
-  "performance",
-  "setTimeout",
-  "clearTimeout",
-  "setInterval",
-  "clearInterval",
-  "setImmediate",
-  "clearImmediate",
-  "queueMicrotask",
-  "requestAnimationFrame",
-  "cancelAnimationFrame",
-  "requestIdleCallback",
-  "cancelIdleCallback",
-  "structuredClone",
-  "atob",
-  "btoa",
-  "fetch",
-  "Headers",
-  "Request",
-  "Response",
-  "FormData",
-  "URL",
-  "URLSearchParams",
-  "AbortController",
-  "AbortSignal",
-  "ReadableStream",
-  "WritableStream",
-  "TransformStream",
-  "Event",
-  "CustomEvent",
-  "MouseEvent",
-  "SubmitEvent",
-  "KeyboardEvent",
-  "MessageEvent",
-  "StorageEvent",
-  "HTMLElement",
-  "HTMLFormElement",
-  "HTMLInputElement",
-  "HTMLButtonElement",
-  "HTMLDivElement",
-  "SVGElement",
-  "SVGSVGElement",
-  "DOMException",
-  "DOMParser",
-  "CSSStyleSheet",
-  "CSSStyleDeclaration",
-  "ShadowRoot",
-  "MutationObserver",
-  "IntersectionObserver",
-  "ResizeObserver",
-  "File",
-  "FileList",
-  "FileReader",
-  "Blob",
-  "TextEncoder",
-  "TextDecoder",
-  "Intl",
-  "crypto",
-  "Crypto",
-  "Map",
-  "Set",
-  "WeakMap",
-  "WeakSet",
-  "Array",
-  "Object",
-  "String",
-  "Number",
-  "Boolean",
-  "Symbol",
-  "BigInt",
-  "Math",
-  "Date",
-  "Error",
-  "Promise",
-  "alert",
-  "confirm",
-  "prompt",
-  "HTMLImageElement",
-  "HTMLTextAreaElement",
-]);
-
-function dummySpan() {
-  return { start: 0, end: 0, ctxt: 0 };
-}
-
-function isSwcNode(value: unknown): value is SwcNode {
-  return typeof value === "object" && value !== null;
-}
-
-function getNodeType(node: SwcNode): string | undefined {
-  return typeof node.type === "string" ? node.type : undefined;
-}
-
-function getNodeArray(value: unknown): SwcNode[] {
-  if (!Array.isArray(value)) return [];
-  return value.filter(isSwcNode);
-}
-
-function getIdentifierValue(node: SwcNode | null | undefined): string | null {
-  if (!node) return null;
-  const value = node.value;
-  return typeof value === "string" ? value : null;
-}
+type ExtractedHandler = {
+  kind: InlineModuleKind;
+  span: { start: number; end: number };
+  handlerStart: number;
+  handlerEnd: number;
+  directiveStart: number;
+  directiveEnd: number;
+  imports: ImportInfo[];
+  declarations: DeclarationInfo[];
+  info: InlineClientHandlerInfo;
+  /** Captured names passed to the handler factory as bound arguments. */
+  bound: string[];
+  /** Component that still renders on the server inside a placeholder. */
+  island: boolean;
+  /** Specifier other handlers of the file import this handler through. */
+  reference: string | null;
+  /** Top-level handlers this handler imports instead of copying. */
+  handlerImports: string[];
+  /** Server code placed around the replacement expression. */
+  prefix: string;
+  suffix: string;
+};
+type ClientModuleMember = { handler: ExtractedHandler; exportName: string };
+
+/** How the functions of each directive are described, bundled and named. */
+const INLINE_KINDS: Record<InlineModuleKind, {
+  idPrefix: string;
+  label: string;
+  bundle: string;
+  callableHint: string;
+}> = {
+  client: {
+    idPrefix: INLINE_ID_PREFIX,
+    label: "inline handler",
+    bundle: "client bundle",
+    callableHint:
+      "Only pass extracted handlers as values (for example to JSX attributes).",
+  },
+  server: {
+    idPrefix: INLINE_SERVER_ID_PREFIX,
+    label: "server action",
+    bundle: "server action module",
+    callableHint:
+      "Server actions are replaced with action references; post to their url instead.",
+  },
+  worker: {
+    idPrefix: INLINE_WORKER_ID_PREFIX,
+    label: "worker function",
+    bundle: "worker bundle",
+    callableHint:
+      'Worker functions are replaced with their script URL; start them with new Worker(url, { type: "module" }).',
+  },
+};
 
 function utf8ByteLength(codePoint: number) {
   if (codePoint <= 0x7f) return 1;
@@ -254,8 +325,19 @@ function getSwcSpanBaseOffset(ast: SwcProgram, code: string) {
   return Math.max(0, moduleStart - firstTokenByteOffset - 1);
 }
 
-function maybeContainsUseClient(code: string) {
-  return code.includes("use client");
+function maybeContainsDirective(code: string) {
+  return code.includes("use client") || code.includes("use server") ||
+    code.includes("use worker");
+}
+
+function resolveSourceIds(sourceId: string) {
+  const { rawId } = splitPluginId(sourceId);
+  const absoluteId = path.isAbsolute(rawId) ? rawId : path.resolve(rawId);
+  return {
+    rawId,
+    absoluteId,
+    normalizedId: path.resolve(absoluteId).replaceAll("\\", "/"),
+  };
 }
 
 function splitPluginId(sourceId: string) {
@@ -377,367 +459,6 @@ function trimForReplacement(
   return { start, end };
 }
 
-function collectDeclaredFromPattern(pattern: unknown, target: Set<string>) {
-  if (!isSwcNode(pattern)) return;
-  const patternType = getNodeType(pattern);
-  if (!patternType) return;
-  switch (patternType) {
-    case "Parameter":
-      collectDeclaredFromPattern(pattern.pat, target);
-      return;
-    case "Identifier":
-      if (typeof pattern.value === "string") {
-        target.add(pattern.value);
-      }
-      return;
-    case "ObjectPattern":
-      for (const prop of getNodeArray(pattern.properties)) {
-        const propType = getNodeType(prop);
-        if (propType === "KeyValuePatternProperty") {
-          collectDeclaredFromPattern(prop.value, target);
-        } else if (propType === "AssignmentPatternProperty") {
-          collectDeclaredFromPattern(prop.key, target);
-        } else if (propType === "RestElement") {
-          collectDeclaredFromPattern(prop.argument, target);
-        }
-      }
-      return;
-    case "ArrayPattern":
-      for (const element of getNodeArray(pattern.elements)) {
-        const elementType = getNodeType(element);
-        if (elementType === "RestElement") {
-          collectDeclaredFromPattern(element.argument, target);
-        } else {
-          collectDeclaredFromPattern(element, target);
-        }
-      }
-      return;
-    case "RestElement":
-      collectDeclaredFromPattern(pattern.argument, target);
-      return;
-    case "AssignmentPattern":
-      collectDeclaredFromPattern(pattern.left, target);
-      return;
-    default:
-      return;
-  }
-}
-
-const TS_VALUE_WRAPPERS = new Set([
-  "TsAsExpression",
-  "TsTypeAssertion",
-  "TsNonNullExpression",
-  "TsSatisfiesExpression",
-  "TsInstantiation",
-]);
-
-function isTypeOnlyNode(node: unknown) {
-  if (!isSwcNode(node)) return false;
-  const nodeType = getNodeType(node);
-  if (!nodeType) return false;
-  if (!nodeType.startsWith("Ts")) return false;
-  if (TS_VALUE_WRAPPERS.has(nodeType)) return false;
-  if (
-    nodeType === "TsEnumDeclaration" || nodeType === "TsConstEnumDeclaration"
-  ) {
-    return false;
-  }
-  return true;
-}
-
-function isIdentifierReference(node: SwcNode, parent: SwcNode | null) {
-  if (!parent) return true;
-  const parentType = getNodeType(parent);
-  switch (parentType) {
-    case "VariableDeclarator":
-      return parent.init === node;
-    case "FunctionDeclaration":
-    case "FunctionExpression":
-    case "ArrowFunctionExpression":
-      return (
-        parent.body === node ||
-        parent.returnType === node ||
-        parent.typeParameters === node ||
-        parent.asserts === node
-      );
-    case "ClassDeclaration":
-    case "ClassExpression":
-      return parent.superClass === node;
-    case "ClassMethod":
-    case "ClassPrivateMethod":
-    case "ClassProperty":
-    case "ClassPrivateProperty":
-      if (parent.key === node && !parent.computed) return false;
-      return true;
-    case "KeyValueProperty":
-      if (parent.key === node && !parent.computed) return false;
-      return true;
-    case "MemberExpression":
-    case "OptionalMemberExpression":
-      if (parent.property === node && !parent.computed) return false;
-      return true;
-    case "LabeledStatement":
-    case "BreakStatement":
-    case "ContinueStatement":
-    case "ImportSpecifier":
-    case "ImportDefaultSpecifier":
-    case "ImportNamespaceSpecifier":
-      return false;
-    case "ExportSpecifier":
-      return parent.local === node;
-    default:
-      return true;
-  }
-}
-
-function isDeclared(scopes: Array<Set<string>>, name: string) {
-  for (let i = scopes.length - 1; i >= 0; i -= 1) {
-    if (scopes[i].has(name)) return true;
-  }
-  return false;
-}
-
-function collectReferences(
-  node: unknown,
-  scopes: Array<Set<string>>,
-  out: Set<string>,
-  parent: SwcNode | null,
-) {
-  if (!isSwcNode(node)) return;
-  if (isTypeOnlyNode(node)) return;
-
-  const nodeType = getNodeType(node);
-  if (!nodeType) return;
-
-  if (nodeType === "Identifier") {
-    const name = typeof node.value === "string" ? node.value : null;
-    if (
-      name && isIdentifierReference(node, parent) && !isDeclared(scopes, name)
-    ) {
-      out.add(name);
-    }
-    return;
-  }
-
-  switch (nodeType) {
-    case "ImportDeclaration":
-    case "ImportSpecifier":
-    case "ImportDefaultSpecifier":
-    case "ImportNamespaceSpecifier":
-    case "ExportDeclaration":
-    case "ExportNamedDeclaration":
-    case "ExportAllDeclaration":
-    case "ExportDefaultDeclaration":
-      return;
-    case "FunctionDeclaration":
-    case "FunctionExpression":
-    case "ArrowFunctionExpression": {
-      const scope = new Set<string>();
-      if (nodeType !== "ArrowFunctionExpression") {
-        scope.add("arguments");
-      }
-      const identifier = isSwcNode(node.identifier) ? node.identifier : null;
-      const identifierName = getIdentifierValue(identifier);
-      if (identifierName) {
-        scope.add(identifierName);
-      }
-      for (const param of getNodeArray(node.params)) {
-        collectDeclaredFromPattern(param, scope);
-        if (getNodeType(param) === "AssignmentPattern") {
-          collectReferences(param.right, scopes.concat(scope), out, param);
-        }
-      }
-      scopes.push(scope);
-      collectReferences(node.body, scopes, out, node);
-      scopes.pop();
-      return;
-    }
-    case "BlockStatement": {
-      const scope = new Set<string>();
-      scopes.push(scope);
-      for (const stmt of getNodeArray(node.stmts)) {
-        collectReferences(stmt, scopes, out, node);
-      }
-      scopes.pop();
-      return;
-    }
-    case "Program": {
-      const scope = new Set<string>();
-      scopes.push(scope);
-      for (const stmt of getNodeArray(node.body)) {
-        collectReferences(stmt, scopes, out, node);
-      }
-      scopes.pop();
-      return;
-    }
-    case "VariableDeclaration": {
-      const current = scopes[scopes.length - 1];
-      for (const decl of getNodeArray(node.declarations)) {
-        collectDeclaredFromPattern(decl.id, current);
-        collectReferences(decl.init, scopes, out, decl);
-      }
-      return;
-    }
-    case "ClassDeclaration":
-    case "ClassExpression": {
-      const current = scopes[scopes.length - 1];
-      const identifier = isSwcNode(node.identifier) ? node.identifier : null;
-      const identifierName = getIdentifierValue(identifier);
-      if (identifierName) {
-        current.add(identifierName);
-      }
-      if (node.superClass) {
-        collectReferences(node.superClass, scopes, out, node);
-      }
-      const classBody = isSwcNode(node.body) ? node.body : null;
-      for (const element of getNodeArray(classBody?.body)) {
-        collectReferences(element, scopes, out, element);
-      }
-      return;
-    }
-    case "ObjectMethod":
-    case "ClassMethod":
-    case "ClassPrivateMethod":
-    case "ClassProperty":
-    case "ClassPrivateProperty":
-    case "ObjectProperty": {
-      if (node.key && node.computed === true) {
-        collectReferences(node.key, scopes, out, node);
-      }
-      collectReferences(node.value, scopes, out, node);
-      return;
-    }
-    default:
-      break;
-  }
-
-  const nodeRecord = node as Record<string, unknown>;
-  for (const key of Object.keys(nodeRecord)) {
-    if (
-      key === "start" || key === "end" || key === "type" || key === "loc" ||
-      key === "span" || key === "ctxt"
-    ) continue;
-    const value = nodeRecord[key];
-    if (!value) continue;
-    if (Array.isArray(value)) {
-      for (const child of value) {
-        if (!isSwcNode(child)) continue;
-        if (typeof child.type === "string") {
-          collectReferences(child, scopes, out, node);
-        }
-        const expression = isSwcNode(child.expression)
-          ? child.expression
-          : null;
-        if (expression && typeof expression.type === "string") {
-          collectReferences(expression, scopes, out, node);
-        }
-      }
-    } else if (isSwcNode(value) && typeof value.type === "string") {
-      collectReferences(value, scopes, out, node);
-      const expression = isSwcNode(value.expression) ? value.expression : null;
-      if (expression && typeof expression.type === "string") {
-        collectReferences(expression, scopes, out, node);
-      }
-    }
-  }
-}
-
-function collectScopeDeclarations(
-  scopeNode: SwcNode,
-  out: Set<string>,
-  targetFunctionNode?: SwcNode,
-) {
-  const scopeType = getNodeType(scopeNode);
-  if (!scopeType) return;
-
-  if (
-    scopeType === "FunctionDeclaration" ||
-    scopeType === "FunctionExpression" ||
-    scopeType === "ArrowFunctionExpression"
-  ) {
-    const identifier = isSwcNode(scopeNode.identifier)
-      ? scopeNode.identifier
-      : null;
-    const identifierName = getIdentifierValue(identifier);
-    if (identifierName) {
-      out.add(identifierName);
-    }
-    for (const param of getNodeArray(scopeNode.params)) {
-      collectDeclaredFromPattern(param, out);
-    }
-    return;
-  }
-
-  if (scopeType === "CatchClause") {
-    collectDeclaredFromPattern(scopeNode.param, out);
-    return;
-  }
-
-  const stmts = scopeType === "Program"
-    ? getNodeArray(scopeNode.body)
-    : scopeType === "BlockStatement"
-    ? getNodeArray(scopeNode.stmts)
-    : [];
-
-  for (const stmt of stmts) {
-    let target = stmt;
-    if (getNodeType(target) === "ExportDeclaration") {
-      const decl = isSwcNode(target.declaration) ? target.declaration : null;
-      if (decl) {
-        target = decl;
-      }
-    }
-
-    if (targetFunctionNode && target === targetFunctionNode) {
-      continue;
-    }
-
-    const targetType = getNodeType(target);
-    if (!targetType) continue;
-
-    if (targetType === "VariableDeclaration") {
-      for (const decl of getNodeArray(target.declarations)) {
-        collectDeclaredFromPattern(decl.id, out);
-      }
-      continue;
-    }
-
-    if (
-      targetType === "FunctionDeclaration" ||
-      targetType === "ClassDeclaration" ||
-      targetType === "TsEnumDeclaration" ||
-      targetType === "TsConstEnumDeclaration"
-    ) {
-      const identifier = isSwcNode(target.identifier) ? target.identifier : null;
-      const id = isSwcNode(target.id) ? target.id : null;
-      const name = getIdentifierValue(identifier) ?? getIdentifierValue(id);
-      if (name) {
-        out.add(name);
-      }
-      continue;
-    }
-
-    if (targetType === "ImportDeclaration") {
-      for (const spec of getNodeArray(target.specifiers)) {
-        const local = isSwcNode(spec.local) ? spec.local : null;
-        const localName = getIdentifierValue(local);
-        if (localName) {
-          out.add(localName);
-        }
-      }
-    }
-  }
-}
-
-function isScopeNodeType(nodeType: string | undefined) {
-  return nodeType === "Program" ||
-    nodeType === "BlockStatement" ||
-    nodeType === "FunctionDeclaration" ||
-    nodeType === "FunctionExpression" ||
-    nodeType === "ArrowFunctionExpression" ||
-    nodeType === "CatchClause";
-}
-
 function isCallableIdentifierUse(node: SwcNode, parent: SwcNode | null) {
   if (!parent) return false;
   const parentType = getNodeType(parent);
@@ -756,65 +477,59 @@ function isCallableIdentifierUse(node: SwcNode, parent: SwcNode | null) {
   return false;
 }
 
+/**
+ * Calls of `name` outside of its function. Calls inside `importers` are fine,
+ * since those functions import the real handler in the client bundle.
+ */
 function hasUnsafeCallableUsages(
-  ast: SwcProgram,
+  analysis: ScopeAnalysis,
   name: string,
   targetFunctionNode: SwcNode,
+  importers: SwcNode[] = [],
 ) {
-  const stack: Array<{ node: SwcNode; parent: SwcNode | null; shadow: number }> = [
-    { node: ast, parent: null, shadow: 0 },
-  ];
-
-  while (stack.length > 0) {
-    const current = stack.pop();
-    if (!current) continue;
-    const { node, parent, shadow } = current;
-    if (node === targetFunctionNode) {
-      continue;
-    }
+  return getBindingReferencesOutside(analysis, name, targetFunctionNode).some(
+    (reference) =>
+      isCallableIdentifierUse(reference.node, reference.parent) &&
+      !importers.some((importer) => isWithin(reference.node, importer)),
+  );
+}
 
-    const nodeType = getNodeType(node);
+/**
+ * Names of `declared` that are assigned outside of `clientCode`, the handlers
+ * and declarations copied into client or worker chunks, and inside of it.
+ */
+function getReassignedNames(
+  analysis: ScopeAnalysis,
+  declared: Set<string>,
+  clientCode: SwcNode[],
+) {
+  const byServer = new Set<string>();
+  const byClient = new Set<string>();
+  for (const reference of analysis.references) {
     if (
-      nodeType === "Identifier" &&
-      typeof node.value === "string" &&
-      node.value === name &&
-      shadow === 0 &&
-      isIdentifierReference(node, parent) &&
-      isCallableIdentifierUse(node, parent)
+      reference.binding?.scope === analysis.module &&
+      declared.has(reference.name) &&
+      reference.parent !== null &&
+      isWriteTarget(reference.node, reference.parent)
     ) {
-      return true;
-    }
-
-    const scopeShadow = isScopeNodeType(nodeType)
-      ? (() => {
-        const declarations = new Set<string>();
-        collectScopeDeclarations(node, declarations, targetFunctionNode);
-        return declarations.has(name) ? 1 : 0;
-      })()
-      : 0;
-    const nextShadow = shadow + scopeShadow;
-
-    const nodeRecord = node as Record<string, unknown>;
-    for (const key of Object.keys(nodeRecord)) {
-      if (
-        key === "start" || key === "end" || key === "type" || key === "loc" ||
-        key === "span" || key === "ctxt"
-      ) continue;
-      const value = nodeRecord[key];
-      if (!value) continue;
-      if (Array.isArray(value)) {
-        for (const child of value) {
-          if (isSwcNode(child)) {
-            stack.push({ node: child, parent: node, shadow: nextShadow });
-          }
-        }
-      } else if (isSwcNode(value)) {
-        stack.push({ node: value, parent: node, shadow: nextShadow });
-      }
+      const names = clientCode.some((node) => isWithin(reference.node, node))
+        ? byClient
+        : byServer;
+      names.add(reference.name);
     }
   }
+  return { byServer: [...byServer], byClient: [...byClient] };
+}
 
-  return false;
+/** Calls, `new` and JSX elements of an imported client module export. */
+function hasUnsafeImportUsages(analysis: ScopeAnalysis, name: string) {
+  const binding = analysis.module.bindings.get(name);
+  if (!binding) return false;
+  return analysis.references.some((reference) =>
+    reference.binding === binding &&
+    (isCallableIdentifierUse(reference.node, reference.parent) ||
+      getNodeType(reference.parent ?? {}) === "JSXOpeningElement")
+  );
 }
 
 function buildImportMap(
@@ -828,35 +543,90 @@ function buildImportMap(
   for (const stmt of getNodeArray(ast.body)) {
     if (getNodeType(stmt) !== "ImportDeclaration") continue;
     if (stmt.typeOnly === true) continue;
-    const importCode = code.slice(
-      getStart(stmt, offset, toIndex),
-      getEnd(stmt, offset, toIndex),
+    const start = getStart(stmt, offset, toIndex);
+    const end = getEnd(stmt, offset, toIndex);
+    const source = isSwcNode(stmt.source) ? stmt.source : null;
+    const specifiers = getNodeArray(stmt.specifiers).filter((spec) =>
+      getIdentifierValue(isSwcNode(spec.local) ? spec.local : null) &&
+      !(getNodeType(spec) === "ImportSpecifier" && spec.isTypeOnly === true)
     );
-    for (const spec of getNodeArray(stmt.specifiers)) {
-      const specType = getNodeType(spec);
+    for (const spec of specifiers) {
       const local = isSwcNode(spec.local) ? spec.local : null;
       const localName = getIdentifierValue(local);
       if (!localName) continue;
-      if (specType === "ImportSpecifier") {
-        if (spec.isTypeOnly === true) continue;
-        map.set(localName, { node: stmt, code: importCode });
-      } else if (specType === "ImportDefaultSpecifier") {
-        map.set(localName, { node: stmt, code: importCode });
-      } else if (specType === "ImportNamespaceSpecifier") {
-        map.set(localName, { node: stmt, code: importCode });
-      }
+      map.set(localName, {
+        node: spec,
+        statement: stmt,
+        source: getIdentifierValue(source),
+        start,
+        end,
+        text: code.slice(
+          getStart(spec, offset, toIndex),
+          getEnd(spec, offset, toIndex),
+        ),
+        from: source ? code.slice(getStart(source, offset, toIndex), end) : "",
+        siblings: specifiers.length,
+      });
     }
   }
 
   return map;
 }
 
+/**
+ * Parts of a declarator that can be copied on their own: the elements of a
+ * destructuring pattern, or the declarator itself when it binds an identifier
+ * or its pattern has a rest element, which depends on the other keys.
+ */
+function getDeclaratorParts(declarator: SwcNode): SwcNode[] {
+  const id = isSwcNode(declarator.id) ? declarator.id : null;
+  const idType = id ? getNodeType(id) : undefined;
+  if (
+    !id || !isSwcNode(declarator.init) ||
+    (idType !== "ObjectPattern" && idType !== "ArrayPattern")
+  ) {
+    return [declarator];
+  }
+  const elements = getNodeArray(
+    idType === "ObjectPattern" ? id.properties : id.elements,
+  );
+  return elements.length === 0 ||
+      elements.some((element) => getNodeType(element) === "RestElement")
+    ? [declarator]
+    : elements;
+}
+
+/**
+ * Nodes with spans that make up a declarator part. SWC gives
+ * `KeyValuePatternProperty` no span of its own, only its key and value.
+ */
+function getPartNodes(part: SwcNode): SwcNode[] {
+  if (getNodeType(part) !== "KeyValuePatternProperty") return [part];
+  return [part.key, part.value].filter(isSwcNode);
+}
+
+function collectDeclaredFromPart(part: SwcNode, target: Set<string>) {
+  switch (getNodeType(part)) {
+    case "VariableDeclarator":
+      collectDeclaredFromPattern(part.id, target);
+      return;
+    case "KeyValuePatternProperty":
+      collectDeclaredFromPattern(part.value, target);
+      return;
+    case "AssignmentPatternProperty":
+      collectDeclaredFromPattern(part.key, target);
+      return;
+    default:
+      collectDeclaredFromPattern(part, target);
+  }
+}
+
 function collectTopLevelDeclarationInfo(
   stmt: SwcNode,
-  code: string,
+  analysis: ScopeAnalysis,
   offset: number,
   toIndex?: (byteOffset: number) => number,
-): DeclarationInfo | null {
+): DeclarationInfo[] {
   let target = stmt;
   if (getNodeType(target) === "ExportDeclaration") {
     const decl = isSwcNode(target.declaration) ? target.declaration : null;
@@ -873,86 +643,109 @@ function collectTopLevelDeclarationInfo(
     targetType !== "TsEnumDeclaration" &&
     targetType !== "TsConstEnumDeclaration"
   ) {
-    return null;
+    return [];
   }
 
-  const declared = new Set<string>();
-  if (targetType === "FunctionDeclaration") {
-    const identifier = isSwcNode(target.identifier) ? target.identifier : null;
-    const name = getIdentifierValue(identifier);
-    if (name) {
-      declared.add(name);
-    }
-  } else if (targetType === "VariableDeclaration") {
-    for (const decl of getNodeArray(target.declarations)) {
-      collectDeclaredFromPattern(decl.id, declared);
-    }
-  } else {
-    const identifier = isSwcNode(target.identifier) ? target.identifier : null;
-    const id = isSwcNode(target.id) ? target.id : null;
-    const name = getIdentifierValue(identifier) ?? getIdentifierValue(id);
-    if (name) {
-      declared.add(name);
-    }
-  }
+  const start = getStart(target, offset, toIndex);
+  const end = getEnd(target, offset, toIndex);
+  const createInfo = (
+    node: SwcNode,
+    declarator: SwcNode | null,
+    declared: Set<string>,
+  ): DeclarationInfo => {
+    const sources = declarator && declarator !== node
+      ? [...getPartNodes(node), declarator.init]
+      : [node];
+    const dependencies = new Set(
+      sources.flatMap((source) =>
+        isSwcNode(source) ? [...getFreeVariables(analysis, source).names] : []
+      ).filter((name) => !declared.has(name)),
+    );
+    return {
+      node,
+      declaration: target,
+      declarator,
+      start,
+      end,
+      declared,
+      dependencies,
+    };
+  };
 
-  const deps = new Set<string>();
-  collectReferences(target, [declared], deps, null);
+  // Each declarator, or destructured element, is its own entry so that only
+  // the bindings a handler uses are copied.
+  if (targetType === "VariableDeclaration") {
+    return getNodeArray(target.declarations).flatMap((declarator) =>
+      getDeclaratorParts(declarator).map((part) => {
+        const declared = new Set<string>();
+        collectDeclaredFromPart(part, declared);
+        return createInfo(part, declarator, declared);
+      })
+    );
+  }
 
-  return {
-    node: target,
-    code: code.slice(
-      getStart(target, offset, toIndex),
-      getEnd(target, offset, toIndex),
-    ),
-    declared,
-    dependencies: deps,
-  };
+  const declared = new Set<string>();
+  const identifier = isSwcNode(target.identifier) ? target.identifier : null;
+  const id = isSwcNode(target.id) ? target.id : null;
+  const name = getIdentifierValue(identifier) ?? getIdentifierValue(id);
+  if (name) {
+    declared.add(name);
+  }
+  return [createInfo(target, null, declared)];
 }
 
 function buildDeclarationMap(
   ast: SwcProgram,
-  code: string,
+  analysis: ScopeAnalysis,
   offset: number,
   toIndex?: (byteOffset: number) => number,
 ) {
   const map = new Map<string, DeclarationInfo>();
   for (const stmt of getNodeArray(ast.body)) {
-    const info = collectTopLevelDeclarationInfo(stmt, code, offset, toIndex);
-    if (!info) continue;
-    for (const name of info.declared) {
-      map.set(name, info);
+    const infos = collectTopLevelDeclarationInfo(
+      stmt,
+      analysis,
+      offset,
+      toIndex,
+    );
+    for (const info of infos) {
+      for (const name of info.declared) {
+        map.set(name, info);
+      }
     }
   }
   return map;
 }
 
-function stripUseClientDirective(fnNode: SwcNode) {
+function getInlineDirective(
+  fnNode: SwcNode,
+): { statement: SwcNode; kind: InlineModuleKind } | null {
   const body = isSwcNode(fnNode.body) ? fnNode.body : null;
-  const stmts = getNodeArray(body?.stmts);
-  const first = stmts[0];
+  if (!body || getNodeType(body) !== "BlockStatement") return null;
+  const first = getNodeArray(body.stmts)[0];
+  const expression = first && isSwcNode(first.expression)
+    ? first.expression
+    : null;
   if (
     first &&
     getNodeType(first) === "ExpressionStatement" &&
-    isSwcNode(first.expression) &&
-    getNodeType(first.expression) === "StringLiteral" &&
-    first.expression.value === "use client"
+    expression &&
+    getNodeType(expression) === "StringLiteral" &&
+    typeof expression.value === "string" &&
+    expression.value.startsWith("use ")
   ) {
-    const nextBody = body ? { ...body, stmts: stmts.slice(1) } : null;
-    return nextBody ? { ...fnNode, body: nextBody } : fnNode;
-  }
-  return fnNode;
-}
-
-function toExportableFunctionExpression(fnNode: SwcNode): SwcNode {
-  if (getNodeType(fnNode) === "FunctionDeclaration") {
-    return { ...fnNode, type: "FunctionExpression" };
+    const kind = expression.value.slice("use ".length);
+    if (Object.hasOwn(INLINE_KINDS, kind)) {
+      return { statement: first, kind: kind as InlineModuleKind };
+    }
   }
-  return fnNode;
+  return null;
 }
 
-function findInlineFunctions(ast: SwcProgram) {
-  const matches: Array<{ node: SwcNode; parent: SwcNode | null }> = [];
+function findInlineFunctions(ast: SwcProgram, kinds: Set<InlineModuleKind>) {
+  const matches: Array<
+    { node: SwcNode; parent: SwcNode | null; kind: InlineModuleKind }
+  > = [];
   const stack: Array<{ node: SwcNode; parent: SwcNode | null }> = [];
   const seen = new WeakSet<object>();
 
@@ -977,21 +770,9 @@ function findInlineFunctions(ast: SwcProgram) {
       nodeType === "FunctionExpression" ||
       nodeType === "FunctionDeclaration"
     ) {
-      const body = isSwcNode(node.body) ? node.body : null;
-      if (body && getNodeType(body) === "BlockStatement") {
-        const stmts = getNodeArray(body.stmts);
-        const first = stmts[0];
-        const expression = first && isSwcNode(first.expression)
-          ? first.expression
-          : null;
-        const hasDirective = first &&
-          getNodeType(first) === "ExpressionStatement" &&
-          expression &&
-          getNodeType(expression) === "StringLiteral" &&
-          expression.value === "use client";
-        if (hasDirective) {
-          matches.push({ node, parent });
-        }
+      const directive = getInlineDirective(node);
+      if (directive && kinds.has(directive.kind)) {
+        matches.push({ node, parent, kind: directive.kind });
       }
     }
 
@@ -1037,63 +818,657 @@ function getInlineBindingName(node: SwcNode, parent: SwcNode | null): string | n
   return null;
 }
 
+/**
+ * Filter expressions are evaluated in order and the first match decides, so
+ * every `exclude` goes before the `include`s it should override.
+ */
 function buildTransformFilter(
   defaults: TopLevelFilterExpression[],
   userFilter: TopLevelFilterExpression | TopLevelFilterExpression[] | undefined,
 ) {
-  if (userFilter === undefined) return defaults;
-  return [
+  const expressions = [
     ...defaults,
-    ...(Array.isArray(userFilter) ? userFilter : [userFilter]),
+    ...(userFilter === undefined
+      ? []
+      : Array.isArray(userFilter)
+      ? userFilter
+      : [userFilter]),
+  ];
+  return [
+    ...expressions.filter((expression) => expression.kind === "exclude"),
+    ...expressions.filter((expression) => expression.kind !== "exclude"),
   ];
 }
 
-export type InlineClientPluginOptions = {
-  /**
-   * Extra filter expression(s) to append to the default transform filter.
-   * By default we include common JS/TS sources and ignore `node_modules`.
-   */
-  filter?: TopLevelFilterExpression | TopLevelFilterExpression[];
-  /**
-   * Enable debug logging or supply a custom logger.
-   */
-  debug?: boolean | ((message: string) => void);
-  /**
-   * How to handle references that cannot be bundled into the client chunk.
-   */
-  unresolved?: "error" | "warn" | "ignore";
-  /**
-   * Enable strict behavior for transform-time safety checks.
-   */
-  strict?: boolean;
-};
+type SourceRewrite = { start: number; end: number; code: string };
+
+/**
+ * Appends `code[start, end)` with the `rewrites` inside that range applied.
+ * `rewrites` are sorted by start; overlapping ones after the first are skipped.
+ */
+function appendRewritten(
+  builder: MappedCodeBuilder,
+  rewrites: SourceRewrite[],
+  start: number,
+  end: number,
+) {
+  let cursor = start;
+  for (const rewrite of rewrites) {
+    if (rewrite.start < cursor || rewrite.end > end) continue;
+    builder.appendSource(cursor, rewrite.start);
+    builder.appendGenerated(rewrite.code, rewrite.start);
+    cursor = rewrite.end;
+  }
+  builder.appendSource(cursor, end);
+}
 
-export default function inlineClientHandlers(
-  options: InlineClientPluginOptions = {},
-): Plugin {
-  const inlineRegistry = createInlineClientRegistry();
-  const defaultFilter: TopLevelFilterExpression[] = [
-    include(id(/\.[cm]?[jt]sx?$/i, { cleanUrl: true })),
-    exclude(id(/(?:^|[\\/])node_modules(?:[\\/]|$)/)),
-  ];
-  const transformFilter = buildTransformFilter(defaultFilter, options.filter);
+function groupBy<T, K>(items: Iterable<T>, getKey: (item: T) => K): T[][] {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Appends one import statement per statement of `imports`. A statement whose
+ * value specifiers are all used is copied as written; otherwise only the used
+ * specifiers are imported, so unrelated server bindings stay out.
+ */
+function appendImports(builder: MappedCodeBuilder, imports: ImportInfo[]) {
+  for (const specifiers of groupBy(imports, (info) => info.statement)) {
+    const [first] = specifiers;
+    if (specifiers.length === first.siblings) {
+      builder.appendSource(first.start, first.end);
+    } else {
+      const order = getNodeArray(first.statement.specifiers);
+      specifiers.sort((a, b) => order.indexOf(a.node) - order.indexOf(b.node));
+      const named = specifiers.filter((info) =>
+        getNodeType(info.node) === "ImportSpecifier"
+      );
+      const clauses = [
+        ...specifiers
+          .filter((info) => !named.includes(info))
+          .map((info) => info.text),
+        ...(named.length > 0
+          ? [`{ ${named.map((info) => info.text).join(", ")} }`]
+          : []),
+      ];
+      builder.appendGenerated(
+        `import ${clauses.join(", ")} from ${first.from}`,
+        first.start,
+      );
+    }
+    builder.appendGenerated("\n");
+  }
+}
+
+/**
+ * Appends `declarations` grouped by statement, each followed by a blank line.
+ * A statement whose bindings are all used is copied as written; otherwise
+ * only the used declarators and destructured elements are kept. Source
+ * ranges go through `append`, so rewrites inside them still apply.
+ */
+function appendDeclarations(
+  builder: MappedCodeBuilder,
+  declarations: DeclarationInfo[],
+  getRange: (node: SwcNode) => { start: number; end: number },
+  append: (start: number, end: number) => void,
+) {
+  const appendNode = (node: SwcNode) => {
+    const nodes = getPartNodes(node);
+    append(
+      getRange(nodes[0]).start,
+      getRange(nodes[nodes.length - 1]).end,
+    );
+  };
+  for (const parts of groupBy(declarations, (info) => info.declaration)) {
+    const { declaration, start, end } = parts[0];
+    const used = new Set(parts.map((info) => info.node));
+    const declarators = getNodeType(declaration) === "VariableDeclaration"
+      ? getNodeArray(declaration.declarations)
+      : [];
+    if (
+      declarators.every((declarator) =>
+        getDeclaratorParts(declarator).every((part) => used.has(part))
+      )
+    ) {
+      append(start, end);
+      builder.appendGenerated("\n\n");
+      continue;
+    }
+    builder.appendGenerated(`${declaration.kind} `, start);
+    let separator = "";
+    for (const declarator of declarators) {
+      const allParts = getDeclaratorParts(declarator);
+      const kept = allParts.filter((part) => used.has(part));
+      if (kept.length === 0) continue;
+      builder.appendGenerated(separator);
+      separator = ", ";
+      if (kept.length === allParts.length) {
+        appendNode(declarator);
+        continue;
+      }
+      const id = declarator.id as SwcNode;
+      if (getNodeType(id) === "ObjectPattern") {
+        builder.appendGenerated("{ ");
+        kept.forEach((part, index) => {
+          if (index > 0) builder.appendGenerated(", ");
+          appendNode(part);
+        });
+        builder.appendGenerated(" }");
+      } else {
+        // Array elements keep their positions; unused ones become holes.
+        const elements = Array.isArray(id.elements) ? id.elements : [];
+        const last = Math.max(...kept.map((part) => elements.indexOf(part)));
+        builder.appendGenerated("[");
+        for (let index = 0; index <= last; index += 1) {
+          if (index > 0) builder.appendGenerated(", ");
+          if (kept.includes(elements[index])) appendNode(elements[index]);
+        }
+        builder.appendGenerated("]");
+      }
+      builder.appendGenerated(" = ");
+      appendNode(declarator.init as SwcNode);
+    }
+    builder.appendGenerated(";\n\n");
+  }
+}
+
+function mergeByNode<T extends { node: SwcNode; start: number }>(
+  items: Iterable<T>,
+): T[] {
+  const byNode = new Map<SwcNode, T>();
+  for (const item of items) {
+    byNode.set(item.node, item);
+  }
+  return Array.from(byNode.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Picks a named export for each handler of a file-level client module. The
+ * binding name is kept when it does not clash with an import or declaration
+ * copied into the module, otherwise a numeric suffix is added.
+ */
+function assignExportNames(
+  handlers: ExtractedHandler[],
+  imports: ImportInfo[],
+  declarations: DeclarationInfo[],
+): ClientModuleMember[] {
+  const taken = new Set<string>();
+  for (const info of imports) {
+    const local = isSwcNode(info.node.local) ? info.node.local : null;
+    const name = getIdentifierValue(local);
+    if (name) taken.add(name);
+  }
+  for (const info of declarations) {
+    for (const name of info.declared) taken.add(name);
+  }
+  const exportNames = new Map<ExtractedHandler, string>();
+  const pick = (handler: ExtractedHandler) => {
+    const base = handler.info.binding ?? "handler";
+    let exportName = base;
+    for (let n = 2; taken.has(exportName); n += 1) {
+      exportName = `${base}${n}`;
+    }
+    taken.add(exportName);
+    exportNames.set(handler, exportName);
+  };
+  // Handlers that other handlers import refer to them by binding, so those
+  // bindings are claimed first.
+  for (const handler of handlers) {
+    if (handler.reference !== null) pick(handler);
+  }
+  for (const handler of handlers) {
+    if (!exportNames.has(handler)) pick(handler);
+  }
+  return handlers.map((handler) => ({
+    handler,
+    exportName: exportNames.get(handler) ?? "handler",
+  }));
+}
+
+type ChunkFileNames = NonNullable<OutputOptions["chunkFileNames"]>;
+
+/** `patterns` is keyed by inline id prefix. */
+function withInlineChunkFileNames(
+  fallback: ChunkFileNames | undefined,
+  defaultPattern: string,
+  patterns: Record<string, ChunkFileNames>,
+): ChunkFileNames {
+  return (chunkInfo) => {
+    const prefix = chunkInfo.facadeModuleId
+      ? getInlineIdPrefix(chunkInfo.facadeModuleId)
+      : null;
+    const pattern = prefix !== null
+      ? patterns[prefix]
+      : fallback ?? defaultPattern;
+    return typeof pattern === "function" ? pattern(chunkInfo) : pattern;
+  };
+}
+
+export type InlineClientPluginOptions = {
+  /**
+   * Extra filter expression(s) to append to the default transform filter.
+   * By default we include common JS/TS sources and ignore `node_modules`.
+   */
+  filter?: TopLevelFilterExpression | TopLevelFilterExpression[];
+  /**
+   * Enable debug logging or supply a custom logger.
+   */
+  debug?: boolean | ((message: string) => void);
+  /**
+   * How to handle references that cannot be bundled into the client chunk.
+   */
+  unresolved?: "error" | "warn" | "ignore";
+  /**
+   * Enable strict behavior for transform-time safety checks.
+   */
+  strict?: boolean;
+  /**
+   * How to handle top-level declarations copied into client or worker chunks
+   * whose initializers may have side effects in the browser, such as
+   * `const db = createPool(env.DATABASE_URL)`. Literals, functions, and
+   * object or array literals of those are pure; calls, `new` expressions and
+   * member access on imports are reported unless the call carries a
+   * `@__PURE__` annotation comment or its callee is listed in `pure`
+   * (`"createContext"`, `"Object.freeze"`). Common built-ins such as `Map` and
+   * `Symbol` are always allowed. `report` defaults to `"warn"`, or `"error"`
+   * with `strict`.
+   */
+  sideEffects?: {
+    report?: "error" | "warn" | "ignore";
+    pure?: string[];
+  };
+  /**
+   * Emit a JSON manifest of extracted handlers at `generateBundle`.
+   * Pass `{ fileName }` to change the asset name.
+   */
+  manifest?: boolean | { fileName?: string };
+  /**
+   * Expression that replaces each extracted handler in the server module.
+   * Defaults to `"pathname"`.
+   */
+  replacement?: InlineClientReplacement;
+  /**
+   * File name pattern for emitted client chunks. Supports Rolldown's
+   * `[name]` and `[hash]` placeholders, where `[hash]` covers the final chunk
+   * content. Defaults to `"assets/[name].[hash].client.js"`.
+   */
+  chunkFileNames?: string | ((chunkInfo: PreRenderedChunk) => string);
+  /**
+   * What the per-handler hash in `[name]` is derived from. `"source"` mixes
+   * the file contents and handler position; `"content"` only uses the
+   * generated client module, so unrelated edits keep the name stable.
+   * Defaults to `"source"`.
+   */
+  handlerHash?: "source" | "content";
+  /**
+   * How handlers are grouped into client modules. `"handler"` emits one
+   * module per handler as its default export; `"file"` emits one module per
+   * source file with a named export per handler, and replacements point at
+   * `<url>#<export>`; `"entry"` bundles those file modules into one client
+   * chunk per input entry. Defaults to `"handler"`.
+   */
+  granularity?: "handler" | "file" | "entry";
+  /**
+   * Persist per-file extraction results in `dir` and reuse them while the
+   * file contents, plugin version and extraction options stay the same.
+   */
+  cache?: { dir: string };
+  /**
+   * Runtime the client chunks load in. References to its globals are left
+   * as-is instead of being reported as unavailable. Defaults to the
+   * `"browser"` preset.
+   */
+  env?: InlineClientEnvOptions;
+  /**
+   * File name pattern for worker entries built from `"use worker"` functions.
+   * Defaults to `"assets/[name].[hash].worker.js"`.
+   */
+  workerChunkFileNames?: string | ((chunkInfo: PreRenderedChunk) => string);
+  /**
+   * Hoist functions that start with `"use server"` into server-only chunks,
+   * replace them with `{ id, url }` action references, and emit a manifest
+   * mapping action ids to chunks. Off by default; pass `true` or an options
+   * object to enable it.
+   */
+  actions?: boolean | InlineServerActionsOptions;
+  /**
+   * Modules that must never reach a client or worker chunk, as bare
+   * specifiers (`"pg"`), paths, or globs relative to the working directory
+   * (`"src/server/**"`). Node builtins and the `server-only` marker package
+   * are always included. At `generateBundle` the build fails with the import
+   * chain that reaches one, static or dynamic. Off by default; pass `true` or
+   * a list of modules to enable it.
+   */
+  serverOnly?: boolean | string[];
+  /**
+   * Environment variables that handlers and the declarations they copy may
+   * read. `process.env.X`, `import.meta.env.X` and `Deno.env.get("X")` are
+   * replaced with the build-time value from `values` (defaults to
+   * `process.env`) when `X` starts with `publicPrefix` (defaults to
+   * `"PUBLIC_"`), and for `NODE_ENV`. Any other env access, and string
+   * literals containing the value of a secret variable such as `API_TOKEN`,
+   * fail the build. Off by default, which copies env reads verbatim; pass
+   * `true` or an options object to enable it.
+   */
+  clientEnv?: boolean | InlineClientEnvAccessOptions;
+};
+
+export default function inlineClientHandlers(
+  options: InlineClientPluginOptions = {},
+): Plugin {
+  const inlineRegistry = createInlineClientRegistry();
+  const defaultFilter: TopLevelFilterExpression[] = [
+    exclude(id(/(?:^|[\\/])node_modules(?:[\\/]|$)/)),
+    include(id(/\.[cm]?[jt]sx?$/i, { cleanUrl: true })),
+  ];
+  const transformFilter = buildTransformFilter(defaultFilter, options.filter);
+  const manifestFileName = getManifestFileName(options.manifest);
+  const manifestRecords = new Map<string, InlineClientManifestRecord>();
+  const sharedClientModules = new Map<
+    string,
+    {
+      moduleId: string;
+      refId: string;
+      owner: string;
+      module: InlineClientModule;
+    }
+  >();
+  const replacementOption = options.replacement ?? "pathname";
+  const clientChunkFileNames = options.chunkFileNames ??
+    "assets/[name].[hash].client.js";
+  const handlerHash = options.handlerHash ?? "source";
+  const granularity = options.granularity ?? "handler";
+  const pureCallees = new Set([
+    ...DEFAULT_PURE_CALLEES,
+    ...(options.sideEffects?.pure ?? []),
+  ]);
+  const cache = options.cache
+    ? createInlineClientCache(options.cache.dir)
+    : null;
+  const clientGlobals = createClientGlobals(options.env);
+  // Worker entries keep the user's extra globals but not the page's DOM.
+  const workerGlobals = createClientGlobals({
+    ...options.env,
+    preset: "worker",
+  });
+  const actionsOption = options.actions
+    ? options.actions === true ? {} : options.actions
+    : null;
+  // Set from the Rolldown `cwd` at `buildStart`.
+  let actionRoot = path.resolve(actionsOption?.root ?? process.cwd());
+  const actionRecords = new Map<string, InlineServerActionRecord>();
+  const isServerOnly = options.serverOnly
+    ? createServerOnlyMatcher(
+      options.serverOnly === true ? [] : options.serverOnly,
+      process.cwd(),
+    )
+    : null;
+  const clientEnvPolicy = options.clientEnv
+    ? createClientEnvPolicy(
+      options.clientEnv === true ? {} : options.clientEnv,
+      process.env,
+    )
+    : null;
+  // Public values are inlined and secret values are looked for, so both
+  // change extraction results.
+  const clientEnvCacheKey = clientEnvPolicy
+    ? [
+      clientEnvPolicy.publicPrefix,
+      Object.entries(clientEnvPolicy.values)
+        .filter(([name]) =>
+          name.startsWith(clientEnvPolicy.publicPrefix) ||
+          PUBLIC_ENV_NAMES.includes(name)
+        )
+        .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0),
+      [...clientEnvPolicy.secrets.keys()].sort(),
+    ]
+    : null;
+  // Whole `"use client"` files: whether a resolved file is one, the chunk
+  // emitted for it during this build, and the specifiers server modules
+  // import them through, checked once their code is available.
+  const clientModuleFiles = new Map<string, boolean | null>();
+  const clientModuleRefIds = new Map<string, string>();
+  const clientModuleImports = new Map<string, Map<string, string>>();
+  // Module id each handler reference resolves to. Kept across builds, since
+  // watch rebuilds do not transform unchanged files again.
+  const handlerReferenceIds = new Map<string, string>();
+  // `granularity: "entry"`: each file's client module, kept across builds
+  // like the handler references, and the client chunk emitted per input
+  // entry with the keys of the files its module graph reaches.
+  const entryClientFiles = new Map<string, EntryClientFile>();
+  const entryClientChunks: Array<{
+    entryId: string;
+    moduleId: string;
+    refId: string;
+    keys: Set<string>;
+  }> = [];
+  /**
+   * Reference id a placeholder from `createEntryRefPlaceholder` stands for:
+   * the client chunk of `entryId` when its graph reaches the file, otherwise
+   * that of the first input entry that does.
+   */
+  const resolveEntryRefId = (refId: string, entryId: string | null) => {
+    const key = parseEntryRefPlaceholder(refId);
+    if (key === null) return refId;
+    const chunks = entryClientChunks.filter((chunk) => chunk.keys.has(key));
+    const chunk = chunks.find((chunk) => chunk.entryId === entryId) ??
+      chunks[0];
+    if (!chunk) {
+      const source = [...entryClientFiles].find(([, file]) => file.key === key)
+        ?.[0];
+      throw new Error(
+        `[use-client] handlers of ${source} are not reachable from any input entry, so granularity "entry" has no client chunk to put them in.`,
+      );
+    }
+    return chunk.refId;
+  };
+  /**
+   * Whether `file` starts with a `"use client"` directive, or `null` when it
+   * is not a source file the transform filter accepts, such as a package in
+   * `node_modules`. Cached until the file changes.
+   */
+  const isClientModuleFile = async (file: string) => {
+    if (clientModuleFiles.has(file)) return clientModuleFiles.get(file)!;
+    let isClientModule: boolean | null = null;
+    if (
+      path.isAbsolute(file) && isSourceFile(file) &&
+      interpreter(defaultFilter, undefined, file)
+    ) {
+      try {
+        const code = await readFile(file, "utf8");
+        if (interpreter(transformFilter, code, file, getModuleType(file))) {
+          isClientModule = getModuleDirectives(code).includes("use client");
+        }
+      } catch {
+        isClientModule = null;
+      }
+    }
+    clientModuleFiles.set(file, isClientModule);
+    return isClientModule;
+  };
+  /**
+   * Rejects namespace imports of the client modules `sources` maps to and
+   * callable uses of their bindings in `importer`, whose transformed code is
+   * parsed again.
+   */
+  const checkClientModuleImports = (
+    context: Pick<PluginContext, "error" | "getModuleInfo">,
+    importer: string,
+    sources: Map<string, string>,
+  ) => {
+    const code = context.getModuleInfo(importer)?.code;
+    if (!code) return;
+    let ast: SwcProgram;
+    try {
+      ast = parseModule(code, importer);
+    } catch {
+      return;
+    }
+    const scopeAnalysis = analyzeScopes(ast);
+    for (const stmt of getNodeArray(ast.body)) {
+      const file = getNodeType(stmt) === "ImportDeclaration" &&
+          stmt.typeOnly !== true
+        ? sources.get(
+          getIdentifierValue(isSwcNode(stmt.source) ? stmt.source : null) ??
+            "",
+        )
+        : undefined;
+      if (file === undefined) continue;
+      for (const spec of getNodeArray(stmt.specifiers)) {
+        const local = getIdentifierValue(
+          isSwcNode(spec.local) ? spec.local : null,
+        );
+        if (!local || spec.isTypeOnly === true) continue;
+        if (getNodeType(spec) === "ImportNamespaceSpecifier") {
+          context.error(
+            `[use-client] namespace import of client module ${file} in ${importer} is not supported. Import its exports by name.`,
+          );
+        }
+        if (hasUnsafeImportUsages(scopeAnalysis, local)) {
+          context.error(
+            `[use-client] client module export "${local}" in ${importer} is used as a callable value. ${INLINE_KINDS.client.callableHint}`,
+          );
+        }
+      }
+    }
+  };
+  /**
+   * Emits `file` as a client entry once per build and returns the URL
+   * expression of its `exportName`, recorded in the manifest.
+   */
+  const createClientModuleExpression = (
+    context: Pick<PluginContext, "emitFile">,
+    file: string,
+    exportName: string,
+  ) => {
+    let refId = clientModuleRefIds.get(file);
+    if (refId === undefined) {
+      // The module keeps its top-level side effects, unlike extracted
+      // handlers.
+      refId = context.emitFile({
+        type: "chunk",
+        id: createClientModuleId(file),
+        name: path.basename(file).replace(/\.[^.]+$/, ""),
+      });
+      clientModuleRefIds.set(file, refId);
+    }
+    const info: InlineClientHandlerInfo = {
+      source: file,
+      line: 1,
+      column: 0,
+      binding: null,
+    };
+    manifestRecords.set(`${file}#${exportName}`, {
+      ...info,
+      refId,
+      exportName,
+      imports: [],
+      island: false,
+    });
+    return createReplacementExpression(replacementOption, {
+      refId,
+      fileName: createFileNamePlaceholder(refId),
+      exportName,
+      args: null,
+      handler: info,
+    });
+  };
+  const extractedKinds = new Set<InlineModuleKind>(
+    actionsOption ? ["client", "server", "worker"] : ["client", "worker"],
+  );
+  const inlineChunkFileNames: Record<string, ChunkFileNames> = {
+    [INLINE_ID_PREFIX]: clientChunkFileNames,
+    [INLINE_SERVER_ID_PREFIX]: actionsOption?.chunkFileNames ??
+      "actions/[name].[hash].server.js",
+    [INLINE_WORKER_ID_PREFIX]: options.workerChunkFileNames ??
+      "assets/[name].[hash].worker.js",
+  };
 
   return {
     name: "inline-client-handlers-fast",
 
-    buildStart() {
-      inlineRegistry.clear();
+    outputOptions(outputOptions) {
+      return {
+        ...outputOptions,
+        entryFileNames: withInlineChunkFileNames(
+          outputOptions.entryFileNames,
+          "[name].js",
+          inlineChunkFileNames,
+        ),
+        chunkFileNames: withInlineChunkFileNames(
+          outputOptions.chunkFileNames,
+          "[name]-[hash].js",
+          inlineChunkFileNames,
+        ),
+      };
+    },
+
+    async buildStart(inputOptions) {
+      actionRoot = path.resolve(inputOptions.cwd, actionsOption?.root ?? "");
+      manifestRecords.clear();
+      actionRecords.clear();
+      sharedClientModules.clear();
+      clientModuleRefIds.clear();
+      clientModuleImports.clear();
+      entryClientChunks.length = 0;
+      if (granularity !== "entry") return;
+      for (const input of Object.values(inputOptions.input)) {
+        const resolved = await this.resolve(input, undefined, {
+          isEntry: true,
+        });
+        if (!resolved || resolved.external) continue;
+        const moduleId = createEntryClientModuleId(resolved.id);
+        entryClientChunks.push({
+          entryId: resolved.id,
+          moduleId,
+          refId: this.emitFile({
+            type: "chunk",
+            id: moduleId,
+            name: path
+              .basename(splitPluginId(resolved.id).rawId)
+              .replace(/\.[^.]+$/, ""),
+          }),
+          keys: new Set(),
+        });
+      }
     },
 
-    buildEnd() {
-      inlineRegistry.clear();
+    watchChange(id, { event }) {
+      clientModuleFiles.delete(resolveSourceIds(id).absoluteId);
+      if (event === "delete") {
+        inlineRegistry.deleteFile(resolveSourceIds(id).normalizedId);
+      }
     },
 
     transform: {
       filter: transformFilter,
       handler(this: TransformPluginContext, code, id) {
         if (id.startsWith("\0")) return;
-        if (!maybeContainsUseClient(code)) return;
+        const { rawId, absoluteId, normalizedId } = resolveSourceIds(id);
+        // Drop what an earlier transform of this file registered; the modules
+        // produced below are registered again once extraction succeeds.
+        inlineRegistry.deleteFile(normalizedId);
+        // Spares `resolveId` reading the file again for its imports.
+        clientModuleFiles.set(
+          absoluteId,
+          getModuleDirectives(code).includes("use client"),
+        );
+
+        if (
+          !maybeContainsDirective(code) &&
+          !maybeContainsClientImportAttribute(code)
+        ) {
+          return;
+        }
 
         const fail = (message: string) => {
           if (typeof this.error === "function") {
@@ -1110,11 +1485,236 @@ export default function inlineClientHandlers(
         const strictMode = options.strict === true;
         const unresolvedPolicy = options.unresolved ??
           (strictMode ? "error" : "warn");
-        const { rawId } = splitPluginId(id);
-
-        const absoluteId = path.isAbsolute(rawId) ? rawId : path.resolve(rawId);
+        const sideEffectsPolicy = options.sideEffects?.report ??
+          (strictMode ? "error" : "warn");
         this.addWatchFile?.(absoluteId);
 
+        const applyFileResult = (result: InlineClientFileResult) => {
+          for (const [key, shared] of sharedClientModules) {
+            if (shared.owner === normalizedId) {
+              sharedClientModules.delete(key);
+            }
+          }
+
+          const fileModules = new Map<string, InlineClientModule>();
+          const entryKey = getEntryFileKey(normalizedId);
+          const refIds = result.modules.map((module) => {
+            if (granularity === "entry" && module.kind === "client") {
+              // Bundled into the client chunk of each entry that reaches
+              // this file, which is only known once the graph is complete.
+              fileModules.set(module.id, {
+                code: module.code,
+                map: module.map,
+              });
+              return createEntryRefPlaceholder(entryKey);
+            }
+            const existing = sharedClientModules.get(module.dedupeKey);
+            if (existing) {
+              fileModules.set(existing.moduleId, existing.module);
+              debugLog?.(
+                `reusing client chunk ${existing.moduleId} for identical handler at ${absoluteId}`,
+              );
+              return existing.refId;
+            }
+            const inlineModule = { code: module.code, map: module.map };
+            fileModules.set(module.id, inlineModule);
+
+            const emittedChunk:
+              & Parameters<TransformPluginContext["emitFile"]>[0]
+              & {
+                moduleSideEffects: false;
+              } = {
+                type: "chunk",
+                id: module.id,
+                name: module.name,
+                moduleSideEffects: false,
+              };
+
+            const refId = this.emitFile(emittedChunk);
+            sharedClientModules.set(module.dedupeKey, {
+              moduleId: module.id,
+              refId,
+              owner: normalizedId,
+              module: inlineModule,
+            });
+            debugLog?.(
+              `emitted client chunk ${module.name} for handlers at ${absoluteId}`,
+            );
+            return refId;
+          });
+          inlineRegistry.setFile(normalizedId, fileModules);
+          const entryModule = granularity === "entry"
+            ? result.modules.findIndex((module) => module.kind === "client")
+            : -1;
+          if (entryModule === -1) {
+            entryClientFiles.delete(normalizedId);
+          } else {
+            entryClientFiles.set(normalizedId, {
+              moduleId: result.modules[entryModule].id,
+              key: entryKey,
+              exportNames: result.handlers
+                .filter((handler) => handler.module === entryModule)
+                .map((handler) => handler.exportName),
+            });
+          }
+          for (const handler of result.handlers) {
+            if (handler.reference === null) continue;
+            const module = result.modules[handler.module];
+            handlerReferenceIds.set(
+              handler.reference,
+              sharedClientModules.get(module.dedupeKey)?.moduleId ?? module.id,
+            );
+          }
+
+          const actionSource = path
+            .relative(actionRoot, absoluteId)
+            .replaceAll("\\", "/");
+          const actionOrdinals = new Map<string | null, number>();
+          const replacements: Replacement[] = result.handlers.map((handler) => {
+            const refId = refIds[handler.module];
+            const deferred = parseEntryRefPlaceholder(refId) !== null;
+            const exportName = deferred
+              ? getEntryExportName(handler.exportName, entryKey)
+              : handler.exportName;
+            if (result.modules[handler.module].kind === "server") {
+              const binding = handler.info.binding;
+              const ordinal = actionOrdinals.get(binding) ?? 0;
+              actionOrdinals.set(binding, ordinal + 1);
+              const actionId = createActionId(actionSource, binding, ordinal);
+              actionRecords.set(`${normalizedId}:${handler.start}`, {
+                ...handler.info,
+                id: actionId,
+                refId,
+                exportName: handler.exportName,
+              });
+              return {
+                start: handler.start,
+                end: handler.end,
+                replacement: `${handler.prefix}${
+                  createActionReferenceExpression(
+                    actionId,
+                    actionsOption?.endpoint ?? DEFAULT_ACTIONS_ENDPOINT,
+                  )
+                }${handler.suffix}`,
+              };
+            }
+            if (result.modules[handler.module].kind === "client") {
+              manifestRecords.set(`${normalizedId}:${handler.start}`, {
+                ...handler.info,
+                refId,
+                exportName,
+                imports: handler.imports,
+                island: handler.island,
+              });
+            }
+            const replacementValue = createReplacementExpression(
+              replacementOption,
+              {
+                refId,
+                fileName: createFileNamePlaceholder(refId),
+                exportName,
+                args: handler.bound.length > 0
+                  ? `JSON.stringify([${handler.bound.join(", ")}])`
+                  : null,
+                handler: handler.info,
+              },
+              deferred,
+            );
+            return {
+              start: handler.start,
+              end: handler.end,
+              replacement: `${handler.prefix}${replacementValue}${handler.suffix}`,
+            };
+          });
+
+          for (const rewrite of result.rewrites) {
+            replacements.push({
+              start: rewrite.start,
+              end: rewrite.end,
+              replacement: rewrite.code,
+            });
+          }
+
+          if (replacements.length === 0) {
+            return;
+          }
+
+          replacements.sort((a, b) => a.start - b.start);
+
+          const transformed = createMappedCodeBuilder(code, rawId);
+          let cursor = 0;
+          for (const { start, end, replacement } of replacements) {
+            if (start < cursor) {
+              debugLog?.(
+                `skipping nested inline handler replacement at [${start}, ${end}]`,
+              );
+              continue;
+            }
+            transformed.appendSource(cursor, start);
+            transformed.appendGenerated(replacement, start);
+            cursor = end;
+          }
+          transformed.appendSource(cursor, code.length);
+
+          return {
+            code: transformed.toString(),
+            map: transformed.toMap(),
+          };
+        };
+
+        // Only options that change extraction belong in the key; replacement
+        // expressions and chunk naming are applied after the cache.
+        const cacheKey = cache
+          ? createCacheKey(normalizedId, code, {
+            strict: strictMode,
+            unresolved: unresolvedPolicy,
+            sideEffects: {
+              report: sideEffectsPolicy,
+              pure: [...pureCallees].sort(),
+            },
+            handlerHash,
+            granularity,
+            env: options.env ?? null,
+            actions: actionsOption !== null,
+            clientEnv: clientEnvCacheKey,
+          })
+          : null;
+        const cached = cache && cacheKey ? cache.get(cacheKey) : null;
+        if (cached) {
+          debugLog?.(`cache hit for ${absoluteId}`);
+          for (const warning of cached.warnings) {
+            this.warn?.(warning);
+          }
+          return applyFileResult(cached);
+        }
+
+        const warnings: string[] = [];
+        const report = (
+          policy: "error" | "warn" | "ignore",
+          message: string,
+        ) => {
+          if (policy === "error") {
+            fail(message);
+          } else if (policy === "warn") {
+            warnings.push(message);
+            this.warn?.(message);
+          }
+        };
+        const finish = (result: InlineClientFileResult) => {
+          if (cache && cacheKey) {
+            try {
+              cache.set(cacheKey, result);
+            } catch (error) {
+              this.warn?.(
+                `[use-client] failed to write cache entry for ${absoluteId}: ${
+                  (error as Error).message
+                }`,
+              );
+            }
+          }
+          return applyFileResult(result);
+        };
+
         let ast: SwcProgram;
         try {
           ast = parseModule(code, absoluteId);
@@ -1132,17 +1732,39 @@ export default function inlineClientHandlers(
 
         const offset = getSwcSpanBaseOffset(ast, code);
         const byteOffsetToIndex = createByteOffsetLookup(code);
+        const getRange = (node: SwcNode) => ({
+          start: getStart(node, offset, byteOffsetToIndex),
+          end: getEnd(node, offset, byteOffsetToIndex),
+        });
 
-        const inlineFunctions = findInlineFunctions(ast);
-        if (inlineFunctions.length === 0) {
+        const inlineFunctions = findInlineFunctions(ast, extractedKinds);
+        const valueImports = getNodeArray(ast.body).filter((stmt) =>
+          getNodeType(stmt) === "ImportDeclaration" &&
+          stmt.typeOnly !== true &&
+          getNodeArray(stmt.specifiers).length > 0
+        );
+        const attributeImports = valueImports.filter(hasClientImportAttribute);
+        if (inlineFunctions.length === 0 && attributeImports.length === 0) {
           debugLog?.(`no inline handlers found in ${absoluteId}`);
-          return;
+          return finish({
+            modules: [],
+            handlers: [],
+            rewrites: [],
+            warnings,
+          });
         }
         debugLog?.(
           `processing ${absoluteId} (len=${code.length}) with ${inlineFunctions.length} inline handlers`,
         );
 
+        // Server actions keep running next to the original module, so only
+        // handlers bundled for the browser need the file to be free of
+        // side-effect imports.
+        const hasBundledHandlers = inlineFunctions.some(({ kind }) =>
+          kind !== "server"
+        );
         const sideEffectImports = getNodeArray(ast.body).filter((stmt) =>
+          hasBundledHandlers &&
           getNodeType(stmt) === "ImportDeclaration" &&
           getNodeArray(stmt.specifiers).length === 0 &&
           stmt.typeOnly !== true
@@ -1161,22 +1783,127 @@ export default function inlineClientHandlers(
           );
         }
 
-        const importMap = buildImportMap(ast, code, offset, byteOffsetToIndex);
-        const declarationMap = buildDeclarationMap(
+        const scopeAnalysis = analyzeScopes(ast);
+
+        // `with { type: "client" }` imports keep their specifiers; the
+        // attribute becomes a query that `resolveId` recognizes.
+        const rewrites: InlineClientFileRewrite[] = [];
+        for (const stmt of attributeImports) {
+          for (const spec of getNodeArray(stmt.specifiers)) {
+            const local = getIdentifierValue(
+              isSwcNode(spec.local) ? spec.local : null,
+            );
+            if (local && hasUnsafeImportUsages(scopeAnalysis, local)) {
+              fail(
+                `[use-client] client module export "${local}" in ${absoluteId} is used as a callable value. ${INLINE_KINDS.client.callableHint}`,
+              );
+            }
+          }
+          const source = isSwcNode(stmt.source) ? stmt.source : null;
+          if (!source) continue;
+          const start = getStart(stmt, offset, byteOffsetToIndex);
+          rewrites.push({
+            start,
+            end: getEnd(stmt, offset, byteOffsetToIndex),
+            code: `${
+              code.slice(start, getStart(source, offset, byteOffsetToIndex))
+            }${
+              JSON.stringify(`${getIdentifierValue(source)}${CLIENT_URL_QUERY}`)
+            };`,
+          });
+        }
+        const importMap = buildImportMap(
           ast,
           code,
           offset,
           byteOffsetToIndex,
         );
+        const declarationMap = buildDeclarationMap(
+          ast,
+          scopeAnalysis,
+          offset,
+          byteOffsetToIndex,
+        );
 
-        const replacements: Replacement[] = [];
         const fileHash = createHash("sha1").update(code).digest("hex").slice(
           0,
           12,
         );
-        const normalizedId = path.resolve(absoluteId).replaceAll("\\", "/");
 
-        for (const { node, parent } of inlineFunctions) {
+        // Top-level client handlers are replaced on the server, so client
+        // handlers referencing them import their module instead of copying
+        // the declaration. Islands keep their source on the server and do not
+        // count as importers there.
+        const topLevelHandlers = new Map<string, SwcNode>();
+        const handlerImporters: SwcNode[] = [];
+        for (const { node, parent, kind } of inlineFunctions) {
+          if (kind !== "client") continue;
+          const name = getIdentifierValue(
+            isSwcNode(node.identifier) ? node.identifier : null,
+          ) ?? getInlineBindingName(node, parent ?? null);
+          if (!isIslandComponent(node, name)) handlerImporters.push(node);
+          const declInfo = name ? declarationMap.get(name) : undefined;
+          if (
+            name && declInfo?.declared.size === 1 &&
+            (declInfo.node === node || declInfo.node === parent)
+          ) {
+            topLevelHandlers.set(name, node);
+          }
+        }
+
+        // Client and worker chunks are public: reads of public env variables
+        // become their build-time values, and any other env access or secret
+        // value fails the build. Returns the `process` and `Deno` identifiers
+        // that the replacements remove.
+        const envRewrites: SourceRewrite[] = [];
+        const globalReferences = new Set(
+          scopeAnalysis.references.flatMap((reference) =>
+            reference.binding === null ? [reference.node] : []
+          ),
+        );
+        const checkEnvUsage = (node: SwcNode, label: string) => {
+          if (!clientEnvPolicy) return [];
+          const usage = findEnvUsage(
+            node,
+            clientEnvPolicy,
+            (identifier) => globalReferences.has(identifier),
+          );
+          for (const access of usage.accesses) {
+            const replacement = access.name === null
+              ? null
+              : getPublicEnvReplacement(clientEnvPolicy, access.name);
+            if (replacement !== null) {
+              envRewrites.push({
+                start: getStart(access.node, offset, byteOffsetToIndex),
+                end: getEnd(access.node, offset, byteOffsetToIndex),
+                code: replacement,
+              });
+              continue;
+            }
+            fail(
+              `[use-client] ${label} in ${absoluteId} reads ${access.description} in a client or worker chunk. Only static reads of NODE_ENV and of environment variables starting with "${clientEnvPolicy.publicPrefix}" are allowed there, and they are replaced with their build-time values; pass other values from the server explicitly.`,
+            );
+          }
+          if (usage.secrets.length > 0) {
+            fail(
+              `[use-client] ${label} in ${absoluteId} contains the value of the environment variable ${
+                usage.secrets.join(", ")
+              }, which would be copied into a client or worker chunk.`,
+            );
+          }
+          return usage.accesses.flatMap((access) =>
+            access.root ? [access.root] : []
+          );
+        };
+
+        const extracted: ExtractedHandler[] = [];
+        for (const { node, parent, kind } of inlineFunctions) {
+          const { label, bundle, callableHint } = INLINE_KINDS[kind];
+          const globals = kind === "client"
+            ? clientGlobals
+            : kind === "worker"
+            ? workerGlobals
+            : null;
           const nodeType = getNodeType(node);
           const parentType = parent ? getNodeType(parent) : undefined;
           const identifier = isSwcNode(node.identifier)
@@ -1188,48 +1915,41 @@ export default function inlineClientHandlers(
           const isNamedDefaultFunction = parentType === "ExportDefaultDeclaration" &&
             nodeType === "FunctionExpression" &&
             !!functionName;
+          const island = kind === "client" &&
+            isIslandComponent(node, callableName);
+          const isTopLevelHandler = callableName !== null &&
+            topLevelHandlers.get(callableName) === node;
+          // Islands stay callable on the server; only their URL is added.
           if (
             callableName &&
-            hasUnsafeCallableUsages(ast, callableName, node)
+            !island &&
+            hasUnsafeCallableUsages(
+              scopeAnalysis,
+              callableName,
+              node,
+              isTopLevelHandler ? handlerImporters : [],
+            )
           ) {
             fail(
-              `[use-client] inline handler "${callableName}" in ${absoluteId} is used as a callable value. ` +
-                "Only pass extracted handlers as values (for example to JSX attributes).",
+              `[use-client] ${label} "${callableName}" in ${absoluteId} is used as a callable value. ${callableHint}`,
             );
           }
-          const cleanedFn = stripUseClientDirective(node);
-          const exportableFn = toExportableFunctionExpression(cleanedFn);
-
-          const exportModule: SwcNode = {
-            type: "Module",
-            span: dummySpan(),
-            body: [
-              {
-                type: "ExportDefaultExpression",
-                span: dummySpan(),
-                expression: exportableFn,
-              },
-            ],
-            interpreter: null,
-            shebang: null,
-          };
-
-          const { code: exportedHandlerCode } = printSync(
-            exportModule as unknown as Parameters<typeof printSync>[0],
-            {
-              minify: false,
-              isModule: true,
-            },
-          );
+          const handlerStart = getStart(node, offset, byteOffsetToIndex);
+          const handlerEnd = getEnd(node, offset, byteOffsetToIndex);
+          const directive = getInlineDirective(node)?.statement;
+          const directiveStart = directive
+            ? getStart(directive, offset, byteOffsetToIndex)
+            : handlerStart;
+          const directiveEnd = directive
+            ? getEnd(directive, offset, byteOffsetToIndex)
+            : handlerStart;
 
-          const bodyNode = isSwcNode(node.body) ? node.body : node;
           debugLog?.(
-            `handler span [${getStart(node, offset, byteOffsetToIndex)}, ${
-              getEnd(node, offset, byteOffsetToIndex)
-            }], body span [${getStart(bodyNode, offset, byteOffsetToIndex)}, ${
-              getEnd(bodyNode, offset, byteOffsetToIndex)
-            }], exported code: ${
-              exportedHandlerCode.slice(0, 60).replace(/\s+/g, " ")
+            `handler span [${handlerStart}, ${handlerEnd}], directive span [${directiveStart}, ${directiveEnd}], handler code: ${
+              code.slice(handlerStart, handlerEnd).slice(0, 60).replace(
+                /\s+/g,
+                " ",
+              )
             }...`,
           );
           const spanTarget = (nodeType === "FunctionDeclaration" &&
@@ -1257,35 +1977,69 @@ export default function inlineClientHandlers(
             continue;
           }
 
-          const freeRefs = new Set<string>();
-          const rootScope = new Set<string>();
-          collectReferences(node, [rootScope], freeRefs, null);
+          const freeRefs = getFreeVariables(scopeAnalysis, node);
+          // `process` and `Deno` stay free only for uses other than env reads.
+          const envRoots = new Set(
+            kind === "server" ? [] : checkEnvUsage(node, label),
+          );
+          const envRootNames = new Set(
+            [...envRoots].map((root) => getIdentifierValue(root)),
+          );
+          for (const name of envRootNames) {
+            if (
+              name !== null &&
+              scopeAnalysis.references.every((reference) =>
+                reference.name !== name || reference.binding !== null ||
+                !isWithin(reference.node, node) || envRoots.has(reference.node)
+              )
+            ) {
+              freeRefs.names.delete(name);
+            }
+          }
 
           const requiredImports = new Map<SwcNode, ImportInfo>();
           const requiredDeclarations = new Map<SwcNode, DeclarationInfo>();
+          const handlerImports = new Set<string>();
 
-          const pending = [...freeRefs].filter((name) => !GLOBALS.has(name));
+          const pending = [...freeRefs.names];
           const seen = new Set(pending);
 
-          const unresolved = pending.filter(
-            (name) => !importMap.has(name) && !declarationMap.has(name),
-          );
-          const reportUnresolved = (message: string) => {
-            if (unresolvedPolicy === "error") {
-              fail(message);
-            } else if (unresolvedPolicy === "warn") {
-              this.warn?.(message);
-            }
-          };
+          // Client handlers receive provably serializable captures as bound
+          // arguments; the call site passes their values along.
+          const bound = kind === "client" && !island
+            ? getSerializableCaptures(
+              scopeAnalysis,
+              ast,
+              node,
+              freeRefs.captured,
+            )
+            : [];
+
+          // Top-level bindings shadow globals of the same name. Captured names
+          // belong to an enclosing function, so a top-level declaration with
+          // the same name must not stand in for them. Server actions run in
+          // the server runtime, whose globals are not modelled.
+          const unresolved = [
+            ...pending.filter(
+              (name) =>
+                globals !== null &&
+                !importMap.has(name) &&
+                !declarationMap.has(name) &&
+                !globals.has(name),
+            ),
+            ...[...freeRefs.captured].filter((name) => !bound.includes(name)),
+          ];
+          const reportUnresolved = (message: string) =>
+            report(unresolvedPolicy, message);
           if (unresolved.includes("arguments")) {
             reportUnresolved(
-              `[use-client] inline handler in ${absoluteId} references "arguments", which is unavailable after extraction for inline arrow handlers.`,
+              `[use-client] ${label} in ${absoluteId} references "arguments", which is unavailable after extraction for inline arrow handlers.`,
             );
           }
           const unresolvedNames = unresolved.filter((name) => name !== "arguments");
           if (unresolvedNames.length > 0) {
             reportUnresolved(
-              `[use-client] inline handler in ${absoluteId} references values that are not available in the client bundle: ${
+              `[use-client] ${label} in ${absoluteId} references values that are not available in the ${bundle}: ${
                 unresolvedNames.join(", ")
               }`,
             );
@@ -1301,11 +2055,16 @@ export default function inlineClientHandlers(
               continue;
             }
 
+            if (kind === "client" && topLevelHandlers.has(name)) {
+              handlerImports.add(name);
+              continue;
+            }
+
             const declInfo = declarationMap.get(name);
             if (declInfo && !requiredDeclarations.has(declInfo.node)) {
               requiredDeclarations.set(declInfo.node, declInfo);
               for (const dep of declInfo.dependencies) {
-                if (!seen.has(dep) && !GLOBALS.has(dep)) {
+                if (!seen.has(dep)) {
                   pending.push(dep);
                   seen.add(dep);
                 }
@@ -1313,70 +2072,9 @@ export default function inlineClientHandlers(
             }
           }
 
-          const sortedImports = Array.from(requiredImports.values()).sort(
-            (a, b) =>
-              getStart(a.node, offset, byteOffsetToIndex) -
-              getStart(b.node, offset, byteOffsetToIndex),
-          );
-          const importCode = sortedImports.length > 0
-            ? `${sortedImports.map((info) => info.code.trim()).join("\n")}\n\n`
-            : "";
-
-          const sortedDeclarations = Array.from(requiredDeclarations.values())
-            .sort(
-              (a, b) =>
-                getStart(a.node, offset, byteOffsetToIndex) -
-                getStart(b.node, offset, byteOffsetToIndex),
-            );
-          const declarationCode = sortedDeclarations.length > 0
-            ? `${
-              sortedDeclarations.map((info) => info.code.trim()).join("\n\n")
-            }\n\n`
-            : "";
-
-          const hash = createHash("sha1")
-            .update(fileHash)
-            .update(String(getStart(node, offset, byteOffsetToIndex)))
-            .update(normalizedId)
-            .digest("hex")
-            .slice(0, 12);
-
-          const baseName = path
-            .basename(absoluteId)
-            .replace(/\.[^.]+$/, "")
-            .replace(/[^a-zA-Z0-9_-]+/g, "_");
-
-          const fileName = `${baseName}.${hash}.client.tsx`;
-          const inlineModulePath = path.join(
-            path.dirname(absoluteId),
-            fileName,
-          );
-          const moduleId = `${INLINE_ID_PREFIX}${inlineModulePath}`;
-
-          const moduleCode =
-            `"use client";\n\n${importCode}${declarationCode}${exportedHandlerCode}\n`;
-
-          inlineRegistry.set(moduleId, moduleCode);
-
-          const emittedChunk:
-            & Parameters<TransformPluginContext["emitFile"]>[0]
-            & {
-              moduleSideEffects: false;
-            } = {
-              type: "chunk",
-              id: moduleId,
-              fileName: `assets/${fileName.replace(/\.tsx?$/, ".js")}`,
-              moduleSideEffects: false,
-            };
-
-          const refId = this.emitFile(emittedChunk);
-          debugLog?.(
-            `emitted client chunk ${emittedChunk.fileName} for handler at ${absoluteId}`,
-          );
-
-          const replacementValue =
-            `new URL(import.meta.ROLLUP_FILE_URL_${refId}, import.meta.url).pathname`;
-
+          const linesBefore = code.slice(0, handlerStart).split("\n");
+          let prefix = "";
+          let suffix = "";
           if (nodeType === "FunctionDeclaration" || isNamedDefaultFunction) {
             if (!functionName) {
               debugLog?.(
@@ -1384,55 +2082,577 @@ export default function inlineClientHandlers(
               );
               continue;
             }
-            if (parentType === "ExportDefaultDeclaration") {
-              replacements.push({
-                start: span.start,
-                end: span.end,
-                replacement:
-                  `const ${functionName} = ${replacementValue}; export default ${functionName};`,
-              });
-              continue;
-            }
             const exportPrefix = parentType === "ExportDeclaration"
               ? "export "
               : "";
-            replacements.push({
-              start: span.start,
-              end: span.end,
-              replacement:
-                `${exportPrefix}const ${functionName} = ${replacementValue};`,
-            });
-          } else {
-            replacements.push({
-              start: span.start,
-              end: span.end,
-              replacement: replacementValue,
-            });
+            prefix = `${exportPrefix}const ${functionName} = `;
+            suffix = parentType === "ExportDefaultDeclaration"
+              ? `; export default ${functionName};`
+              : ";";
+          }
+          if (island) {
+            // Islands take their props from JSX, so `(props) => ...` keeps
+            // the component's own parameters.
+            const wrapper = createIslandWrapper(
+              `${code.slice(handlerStart, directiveStart)}${
+                code.slice(directiveEnd, handlerEnd)
+              }`,
+              callableName ?? "component",
+            );
+            prefix = `${prefix}${wrapper.prefix}`;
+            suffix = `${wrapper.suffix}${suffix}`;
           }
+
+          extracted.push({
+            kind,
+            span,
+            handlerStart,
+            handlerEnd,
+            directiveStart,
+            directiveEnd,
+            imports: mergeByNode(requiredImports.values()),
+            declarations: mergeByNode(requiredDeclarations.values()),
+            info: {
+              source: absoluteId,
+              line: linesBefore.length,
+              column: linesBefore[linesBefore.length - 1].length,
+              binding: callableName,
+            },
+            bound,
+            island,
+            reference: isTopLevelHandler
+              ? createHandlerReference(normalizedId, callableName)
+              : null,
+            handlerImports: [...handlerImports].sort(),
+            prefix,
+            suffix,
+          });
         }
 
-        if (replacements.length === 0) {
-          return;
+        // Copied declarations run again wherever the chunk loads, so
+        // initializers that may have side effects are reported, and so is
+        // mutable state, which the chunk only sees as a build-time snapshot:
+        // bindings the server reassigns, and `let` or `var` bindings unless
+        // client code assigns them, which makes them client-side state.
+        const purityContext: PurityContext = {
+          isImport: (name) => importMap.has(name),
+          isAnnotatedPure: (node) =>
+            hasPureAnnotation(code, getStart(node, offset, byteOffsetToIndex)),
+          pure: pureCallees,
+        };
+        const copiedDeclarations = mergeByNode(
+          extracted
+            .filter((handler) => handler.kind !== "server")
+            .flatMap((handler) => handler.declarations),
+        );
+        // Destructured elements are checked together with their declarator,
+        // whose initializer each of them evaluates.
+        const clientCode = [
+          ...inlineFunctions
+            .filter(({ kind }) => kind !== "server")
+            .map(({ node }) => node),
+          ...copiedDeclarations.map((info) => info.declarator ?? info.node),
+        ];
+        for (
+          const parts of groupBy(
+            copiedDeclarations,
+            (info) => info.declarator ?? info.node,
+          )
+        ) {
+          const node = parts[0].declarator ?? parts[0].node;
+          const declared = new Set(parts.flatMap((info) => [...info.declared]));
+          const names = [...declared].join(", ");
+          checkEnvUsage(node, `top-level declaration of ${names}`);
+          const effect = findDeclarationSideEffect(node, purityContext);
+          if (effect) {
+            report(
+              sideEffectsPolicy,
+              `[use-client] top-level declaration of ${names} in ${absoluteId} is copied into a client or worker chunk, but its initializer may have side effects (${effect}). Annotate the call with /* @__PURE__ */ or list the callee in sideEffects.pure.`,
+            );
+          }
+          const variableKind = parts[0].declarator
+            ? parts[0].declaration.kind
+            : null;
+          const reassigned = getReassignedNames(
+            scopeAnalysis,
+            declared,
+            clientCode,
+          );
+          if (reassigned.byServer.length > 0) {
+            report(
+              unresolvedPolicy,
+              `[use-client] top-level declaration of ${names} (reassigned by server code: ${
+                reassigned.byServer.join(", ")
+              }) in ${absoluteId} is copied into a client or worker chunk. The chunk holds a snapshot of its value at build time, so the server's assignments never reach the client; pass the value to the client explicitly.`,
+            );
+          } else if (
+            (variableKind === "let" || variableKind === "var") &&
+            reassigned.byClient.length === 0
+          ) {
+            report(
+              unresolvedPolicy,
+              `[use-client] top-level \`${variableKind}\` declaration of ${names} in ${absoluteId} is copied into a client or worker chunk. The chunk holds a snapshot of its value at build time rather than sharing it with the server; declare it with const, or pass the value to the client explicitly.`,
+            );
+          }
         }
 
-        replacements.sort((a, b) => b.start - a.start);
+        const baseName = path
+          .basename(absoluteId)
+          .replace(/\.[^.]+$/, "")
+          .replace(/[^a-zA-Z0-9_-]+/g, "_");
+        const clientModules: ClientModuleMember[][] = granularity !== "handler"
+          ? [
+            ...(["client", "server"] as const).flatMap((moduleKind) => {
+            const members = extracted.filter((handler) =>
+              handler.kind === moduleKind
+            );
+            return members.length > 0
+              ? [assignExportNames(
+                members,
+                mergeByNode(members.flatMap((handler) => handler.imports)),
+                mergeByNode(
+                  members.flatMap((handler) => handler.declarations),
+                ),
+              )]
+              : [];
+            }),
+            // Every worker function is its own worker entry.
+            ...extracted
+              .filter((handler) => handler.kind === "worker")
+              .map((handler) => [{ handler, exportName: "default" }]),
+          ]
+          : extracted.map((handler) => [{ handler, exportName: "default" }]);
+
+        // Declarations that several client modules copy move into one shared
+        // module per file, so module-level state stays a singleton in the
+        // browser. Other modules import the bindings and assign them through
+        // accessors, since imported bindings are read-only.
+        const sharedDeclarations = mergeByNode(
+          findSharedItems(
+            clientModules
+              .filter((members) => members[0].handler.kind === "client")
+              .map((members) =>
+                members.flatMap(({ handler }) => handler.declarations)
+              ),
+          ),
+        );
+        const sharedNames = sharedDeclarations.flatMap((info) => [
+          ...info.declared,
+        ]);
+        const sharedWrites = findSharedWrites(
+          scopeAnalysis,
+          new Set(sharedNames),
+          sharedDeclarations.map((info) => info.declarator ?? info.node),
+        ).map((reference) => ({
+          name: reference.name,
+          start: getStart(reference.node, offset, byteOffsetToIndex),
+          end: getEnd(reference.node, offset, byteOffsetToIndex),
+          code: createSharedWriteTarget(reference),
+        })).sort((a, b) => a.start - b.start);
+        envRewrites.sort((a, b) => a.start - b.start);
+        // Hashed like handler ids, since the base name drops the extension
+        // and any characters `foo.ts` and `foo.tsx` or `a.b.ts` and `a_b.ts`
+        // tell apart.
+        const sharedHash = createHash("sha1")
+          .update(normalizedId)
+          .digest("hex")
+          .slice(0, 12);
+        const sharedModuleId = `${INLINE_ID_PREFIX}${
+          path.join(
+            path.dirname(absoluteId),
+            `${baseName}.${sharedHash}.shared.tsx`,
+          )
+        }`;
+        const sharedStateNames = new Set<string>();
+
+        const modules: InlineClientFileModule[] = [];
+        const handlers: InlineClientFileHandler[] = [];
+        for (const members of clientModules) {
+          const moduleKind = members[0].handler.kind;
+          const sortedImports = mergeByNode(
+            members.flatMap(({ handler }) => handler.imports),
+          );
+          const moduleDeclarations = mergeByNode(
+            members.flatMap(({ handler }) => handler.declarations),
+          );
+          const sharedSet = new Set(
+            moduleKind === "client" ? sharedDeclarations : [],
+          );
+          const sortedDeclarations = moduleDeclarations.filter((info) =>
+            !sharedSet.has(info)
+          );
+          const copiedRanges = [
+            ...sortedDeclarations,
+            ...members.map(({ handler }) => ({
+              start: handler.handlerStart,
+              end: handler.handlerEnd,
+            })),
+          ];
+          const moduleWrites = sharedSet.size === 0 ? [] : sharedWrites.filter(
+            (write) =>
+              copiedRanges.some((range) =>
+                write.start >= range.start && write.end <= range.end
+              ),
+          );
+          const sharedImports = [
+            ...moduleDeclarations
+              .filter((info) => sharedSet.has(info))
+              .flatMap((info) => [...info.declared]),
+            ...(moduleWrites.length > 0 ? [SHARED_STATE_BINDING] : []),
+          ];
+          for (const write of moduleWrites) sharedStateNames.add(write.name);
+
+          const clientModule = createMappedCodeBuilder(code, rawId);
+          clientModule.appendGenerated(`"use ${moduleKind}";\n\n`);
+          appendImports(clientModule, sortedImports);
+          // Handlers of the same module are in scope under their binding.
+          const localHandlers = new Set(
+            members.flatMap(({ handler, exportName }) =>
+              handler.reference !== null && exportName !== "default"
+                ? [exportName]
+                : []
+            ),
+          );
+          const handlerImports = [
+            ...new Set(
+              members.flatMap(({ handler }) => handler.handlerImports),
+            ),
+          ].filter((name) => !localHandlers.has(name)).sort();
+          for (const name of handlerImports) {
+            clientModule.appendGenerated(
+              `import ${name} from ${
+                JSON.stringify(createHandlerReference(normalizedId, name))
+              };\n`,
+            );
+          }
+          if (sharedImports.length > 0) {
+            clientModule.appendGenerated(
+              `import { ${sharedImports.join(", ")} } from ${
+                JSON.stringify(sharedModuleId)
+              };\n`,
+            );
+          }
+          if (
+            sortedImports.length > 0 || handlerImports.length > 0 ||
+            sharedImports.length > 0
+          ) {
+            clientModule.appendGenerated("\n");
+          }
+          const moduleRewrites = [
+            ...moduleWrites,
+            ...(moduleKind === "server" ? [] : envRewrites),
+          ].sort((a, b) => a.start - b.start);
+          const appendCopied = (start: number, end: number) =>
+            appendRewritten(clientModule, moduleRewrites, start, end);
+          appendDeclarations(
+            clientModule,
+            sortedDeclarations,
+            getRange,
+            appendCopied,
+          );
+          members.forEach(({ handler, exportName }, index) => {
+            if (index > 0) clientModule.appendGenerated("\n");
+            clientModule.appendGenerated(
+              moduleKind === "worker"
+                ? `const ${WORKER_HANDLER_BINDING} = `
+                : exportName === "default"
+                ? "export default "
+                : `export const ${exportName} = `,
+              handler.handlerStart,
+            );
+            if (handler.bound.length > 0) {
+              clientModule.appendGenerated(
+                `(${handler.bound.join(", ")}) => `,
+                handler.handlerStart,
+              );
+            }
+            appendCopied(handler.handlerStart, handler.directiveStart);
+            appendCopied(handler.directiveEnd, handler.handlerEnd);
+            clientModule.appendGenerated(";\n");
+          });
+          if (moduleKind === "worker") {
+            clientModule.appendGenerated(`\n${createWorkerProtocolSource()}`);
+          }
 
-        let transformed = code;
-        for (const { start, end, replacement } of replacements) {
-          transformed = transformed.slice(0, start) + replacement +
-            transformed.slice(end);
+          const clientModuleCode = clientModule.toString();
+          const hash = handlerHash === "content"
+            ? createHash("sha1")
+              .update(normalizedId)
+              .update(clientModuleCode)
+              .digest("hex")
+              .slice(0, 12)
+            : createHash("sha1")
+              .update(fileHash)
+              .update(
+                members.map(({ handler }) => handler.handlerStart).join(","),
+              )
+              .update(normalizedId)
+              .digest("hex")
+              .slice(0, 12);
+
+          const chunkName = `${baseName}.${hash}`;
+          const inlineModulePath = path.join(
+            path.dirname(absoluteId),
+            `${chunkName}.${moduleKind}.tsx`,
+          );
+          // Relative specifiers resolve against the source directory, so
+          // identical code from different directories is only shared when it
+          // has no relative imports.
+          const dedupeKey = createHash("sha1")
+            .update(
+              sortedImports.some((info) => info.source?.startsWith("."))
+                ? path.dirname(normalizedId)
+                : "",
+            )
+            .update("\0")
+            .update(clientModuleCode)
+            .digest("hex");
+          modules.push({
+            kind: moduleKind,
+            id: `${INLINE_KINDS[moduleKind].idPrefix}${inlineModulePath}`,
+            name: chunkName,
+            dedupeKey,
+            code: clientModuleCode,
+            map: clientModule.toMap(),
+          });
+
+          const importSources = groupBy(
+            sortedImports,
+            (info) => info.statement,
+          ).flatMap(([info]) => info.source === null ? [] : [info.source]);
+          for (const { handler, exportName } of members) {
+            handlers.push({
+              start: handler.span.start,
+              end: handler.span.end,
+              prefix: handler.prefix,
+              suffix: handler.suffix,
+              module: modules.length - 1,
+              exportName,
+              info: handler.info,
+              imports: importSources,
+              bound: handler.bound,
+              island: handler.island,
+              reference: handler.reference,
+            });
+          }
         }
 
-        return {
-          code: transformed,
-          map: null,
-        };
+        if (sharedDeclarations.length > 0) {
+          const dependencies = new Set(
+            sharedDeclarations.flatMap((info) => [...info.dependencies]),
+          );
+          const sharedModuleImports = mergeByNode(
+            [...dependencies].flatMap((name) => {
+              const info = importMap.get(name);
+              return info ? [info] : [];
+            }),
+          );
+          const sharedHandlerImports = [...dependencies]
+            .filter((name) => topLevelHandlers.has(name))
+            .sort();
+          const sharedModule = createMappedCodeBuilder(code, rawId);
+          sharedModule.appendGenerated(`"use client";\n\n`);
+          appendImports(sharedModule, sharedModuleImports);
+          for (const name of sharedHandlerImports) {
+            sharedModule.appendGenerated(
+              `import ${name} from ${
+                JSON.stringify(createHandlerReference(normalizedId, name))
+              };\n`,
+            );
+          }
+          if (
+            sharedModuleImports.length > 0 || sharedHandlerImports.length > 0
+          ) {
+            sharedModule.appendGenerated("\n");
+          }
+          appendDeclarations(
+            sharedModule,
+            sharedDeclarations,
+            getRange,
+            (start, end) =>
+              appendRewritten(sharedModule, envRewrites, start, end),
+          );
+          sharedModule.appendGenerated(
+            `export { ${sharedNames.join(", ")} };\n`,
+          );
+          if (sharedStateNames.size > 0) {
+            sharedModule.appendGenerated(
+              `\n${createSharedStateSource([...sharedStateNames].sort())}`,
+            );
+          }
+          const sharedModuleCode = sharedModule.toString();
+          modules.push({
+            kind: "client",
+            id: sharedModuleId,
+            name: `${baseName}.shared`,
+            // Handler modules import this id, so it is never shared with
+            // another file.
+            dedupeKey: createHash("sha1")
+              .update(sharedModuleId)
+              .update("\0")
+              .update(sharedModuleCode)
+              .digest("hex"),
+            code: sharedModuleCode,
+            map: sharedModule.toMap(),
+          });
+        }
+
+        return finish({ modules, handlers, rewrites, warnings });
       },
     },
 
-    async resolveId(id, importer) {
+    buildEnd(error) {
+      if (error) return;
+      for (const [importer, sources] of clientModuleImports) {
+        checkClientModuleImports(this, importer, sources);
+      }
+    },
+
+    renderChunk(code, chunk, _outputOptions, meta) {
+      const hasManifest = code.includes(MANIFEST_PLACEHOLDER);
+      const hasUrls = hasReplacementPlaceholders(code);
+      if (!hasManifest && !hasUrls) return null;
+      const getFileName = (refId: string) =>
+        this.getFileName(resolveEntryRefId(refId, chunk.facadeModuleId));
+      const rewrites = hasUrls
+        ? resolveReplacementPlaceholders(
+          code,
+          chunk.fileName,
+          replacementOption,
+          getFileName,
+        )
+        : [];
+      if (hasManifest) {
+        const manifest = JSON.stringify(JSON.stringify(
+          createInlineClientManifest(
+            manifestRecords.values(),
+            getFileName,
+            meta.chunks,
+          ),
+        ));
+        for (
+          const { 0: match, index } of code.matchAll(
+            new RegExp(`(["'])${MANIFEST_PLACEHOLDER}\\1`, "g"),
+          )
+        ) {
+          rewrites.push({
+            start: index,
+            end: index + match.length,
+            code: manifest,
+          });
+        }
+        rewrites.sort((a, b) => a.start - b.start);
+      }
+      // Replacements differ in length from their placeholders, so the chunk
+      // is rebuilt with a map that keeps later columns in place.
+      const rendered = createMappedCodeBuilder(code, chunk.fileName);
+      appendRewritten(rendered, rewrites, 0, code.length);
+      return { code: rendered.toString(), map: rendered.toMap() };
+    },
+
+    generateBundle(_outputOptions, bundle) {
+      // Entry chunks are emitted before it is known whether their graph has
+      // any handlers.
+      for (const chunk of entryClientChunks) {
+        if (chunk.keys.size === 0) {
+          delete bundle[this.getFileName(chunk.refId)];
+        }
+      }
+      for (const output of Object.values(bundle)) {
+        if (!isServerOnly || output.type !== "chunk") continue;
+        const facade = output.facadeModuleId;
+        const prefix = facade ? getInlineIdPrefix(facade) : null;
+        if (
+          !facade ||
+          (prefix !== INLINE_ID_PREFIX && prefix !== INLINE_WORKER_ID_PREFIX)
+        ) {
+          continue;
+        }
+        const chain = findServerOnlyChain(
+          facade,
+          (id) => {
+            const info = this.getModuleInfo(id);
+            return info
+              ? [...info.importedIds, ...info.dynamicallyImportedIds]
+              : [];
+          },
+          isServerOnly,
+        );
+        if (chain) {
+          this.error(
+            `[use-client] ${output.fileName} imports the server-only module ${
+              chain[chain.length - 1]
+            }: ${chain.map((id) => id.replace(/^\0/, "")).join(" -> ")}`,
+          );
+        }
+      }
+      if (actionsOption && actionRecords.size > 0) {
+        const actionManifest = createServerActionManifest(
+          actionRecords.values(),
+          (refId) => this.getFileName(refId),
+        );
+        this.emitFile({
+          type: "asset",
+          fileName: actionsOption.fileName ??
+            DEFAULT_ACTIONS_MANIFEST_FILE_NAME,
+          source: `${JSON.stringify(actionManifest, null, 2)}\n`,
+        });
+      }
+      if (manifestFileName === null) return;
+      const manifest = createInlineClientManifest(
+        manifestRecords.values(),
+        (refId) => this.getFileName(resolveEntryRefId(refId, null)),
+        bundle,
+      );
+      this.emitFile({
+        type: "asset",
+        fileName: manifestFileName,
+        source: `${JSON.stringify(manifest, null, 2)}\n`,
+      });
+    },
+
+    async resolveId(id, importer, extraOptions) {
+      if (id === MANIFEST_MODULE_ID) {
+        return RESOLVED_MANIFEST_MODULE_ID;
+      }
+
+      if (id.startsWith(HANDLER_REFERENCE_PREFIX)) {
+        return handlerReferenceIds.get(id) ?? null;
+      }
+
+      if (id.endsWith(CLIENT_URL_QUERY) && typeof importer === "string") {
+        const resolved = await this.resolve(
+          id.slice(0, -CLIENT_URL_QUERY.length),
+          importer,
+          { skipSelf: true },
+        );
+        if (!resolved || resolved.external) return null;
+        return `${CLIENT_URL_ID_PREFIX}${splitPluginId(resolved.id).rawId}`;
+      }
+
+      // Server code that imports a whole `"use client"` file receives the
+      // URLs of its chunk. A client module importing another one bundles it
+      // like any other import.
+      if (
+        extraOptions.kind === "import-statement" &&
+        typeof importer === "string" && !importer.startsWith("\0") &&
+        !id.startsWith("\0") &&
+        (await isClientModuleFile(splitPluginId(importer).rawId)) === false
+      ) {
+        const resolved = await this.resolve(id, importer, {
+          ...extraOptions,
+          skipSelf: true,
+        });
+        if (!resolved || resolved.external) return resolved;
+        const file = splitPluginId(resolved.id).rawId;
+        if (!(await isClientModuleFile(file))) return resolved;
+        const sources = clientModuleImports.get(importer) ?? new Map();
+        clientModuleImports.set(importer, sources.set(id, file));
+        return `${CLIENT_URL_ID_PREFIX}${file}`;
+      }
+
       if (typeof id === "string" && typeof importer === "string") {
-        if (importer.startsWith(INLINE_ID_PREFIX)) {
+        if (isInlineModuleId(importer)) {
           const importerPath = parseInlineModulePath(importer);
           const resolved = await this.resolve?.(id, importerPath, {
             skipSelf: true,
@@ -1448,27 +2668,99 @@ export default function inlineClientHandlers(
           }
         }
 
-        if (id.startsWith(INLINE_ID_PREFIX)) {
+        if (isInlineModuleId(id)) {
           return id;
         }
       }
 
-      if (typeof id === "string" && id.startsWith(INLINE_ID_PREFIX)) {
+      if (typeof id === "string" && isInlineModuleId(id)) {
         return id;
       }
 
       return null;
     },
 
-    load(id) {
-      if (!id.startsWith(INLINE_ID_PREFIX)) return null;
+    async load(id) {
+      if (id === RESOLVED_MANIFEST_MODULE_ID) {
+        return `export default JSON.parse("${MANIFEST_PLACEHOLDER}");\n`;
+      }
+      const entryChunk = entryClientChunks.find((chunk) =>
+        chunk.moduleId === id
+      );
+      if (entryChunk) {
+        // Waits for every server module the entry reaches, statically or
+        // dynamically, to be transformed. Loading an external never settles,
+        // so imports are resolved again to skip those.
+        const files: EntryClientFile[] = [];
+        const seen = new Set([entryChunk.entryId]);
+        const pending = [entryChunk.entryId];
+        for (const moduleId of pending) {
+          const info = await this.load({
+            id: moduleId,
+            resolveDependencies: true,
+          });
+          const file = entryClientFiles.get(
+            resolveSourceIds(moduleId).normalizedId,
+          );
+          if (file) {
+            files.push(file);
+            entryChunk.keys.add(file.key);
+          }
+          for (
+            const imported of [
+              ...info.importedIds,
+              ...info.dynamicallyImportedIds,
+            ]
+          ) {
+            if (
+              seen.has(imported) || isInlineModuleId(imported) ||
+              imported.startsWith(CLIENT_URL_ID_PREFIX)
+            ) {
+              continue;
+            }
+            seen.add(imported);
+            const resolved = await this.resolve(imported, moduleId);
+            if (resolved && !resolved.external) pending.push(resolved.id);
+          }
+        }
+        return { code: createEntryClientSource(files), moduleType: "js" };
+      }
+      if (id.startsWith(CLIENT_URL_ID_PREFIX)) {
+        const file = id.slice(CLIENT_URL_ID_PREFIX.length);
+        this.addWatchFile(file);
+        const exportNames = getExportNames(
+          parseModule(await readFile(file, "utf8"), file),
+        );
+        const lines = exportNames.map((exportName, index) =>
+          `const url${index} = ${
+            createClientModuleExpression(this, file, exportName)
+          };`
+        );
+        lines.push(
+          `export { ${
+            exportNames.map((exportName, index) =>
+              `url${index} as ${JSON.stringify(exportName)}`
+            ).join(", ")
+          } };`,
+        );
+        return `${lines.join("\n")}\n`;
+      }
+      if (!isInlineModuleId(id)) return null;
+      if (isClientModuleId(id)) {
+        const file = parseInlineModulePath(id);
+        this.addWatchFile(file);
+        return {
+          code: await readFile(file, "utf8"),
+          moduleType: getModuleType(file),
+        };
+      }
       const inlineModulePath = parseInlineModulePath(id);
-      const inlineModuleId = `${INLINE_ID_PREFIX}${inlineModulePath}`;
-      const code = inlineRegistry.get(inlineModuleId);
-      if (code === undefined) return null;
+      const inlineModuleId = `${getInlineIdPrefix(id)}${inlineModulePath}`;
+      const inlineModule = inlineRegistry.get(inlineModuleId);
+      if (inlineModule === undefined) return null;
       return {
-        code,
-        map: null,
+        code: inlineModule.code,
+        map: inlineModule.map,
         moduleType: "tsx",
       };
     },
@@ -0,0 +1,247 @@
+import { assert, assertEquals, assertExists } from "std/assert";
+import { parseSync } from "@swc/core";
+import {
+  analyzeScopes,
+  getBindingReferencesOutside,
+  getFreeVariables,
+  getNodeArray,
+  getNodeType,
+  isSwcNode,
+  type SwcNode,
+  type SwcProgram,
+} from "./inline-client-scope.ts";
+
+function parse(code: string): SwcProgram {
+  return parseSync(code, {
+    syntax: "typescript",
+    tsx: true,
+    target: "es2022",
+  }) as unknown as SwcProgram;
+}
+
+function findUseClientFunction(node: unknown): SwcNode | null {
+  if (!isSwcNode(node)) return null;
+  const nodeType = getNodeType(node);
+  if (
+    nodeType === "ArrowFunctionExpression" ||
+    nodeType === "FunctionExpression" ||
+    nodeType === "FunctionDeclaration"
+  ) {
+    const body = isSwcNode(node.body) ? node.body : null;
+    const first = getNodeArray(body?.stmts)[0];
+    const expression = isSwcNode(first?.expression) ? first.expression : null;
+    if (expression?.value === "use client") return node;
+  }
+  for (const value of Object.values(node)) {
+    for (const child of Array.isArray(value) ? value : [value]) {
+      const found = findUseClientFunction(child);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function getHandlerFreeVariables(code: string) {
+  const program = parse(code);
+  const handler = findUseClientFunction(program);
+  assertExists(handler, "test source should contain a handler");
+  const { names, captured } = getFreeVariables(analyzeScopes(program), handler);
+  return { names: [...names].sort(), captured: [...captured].sort() };
+}
+
+const cases: Array<{
+  name: string;
+  code: string;
+  names?: string[];
+  captured?: string[];
+}> = [
+  {
+    name: "var in a nested block hoists to the function",
+    code: `export const h = () => {
+  "use client";
+  if (flag) { var hoisted = 1; }
+  return hoisted;
+};`,
+    names: ["flag"],
+  },
+  {
+    name: "function declarations are visible before their statement",
+    code: `export const h = () => {
+  "use client";
+  return helper();
+  function helper() { return 1; }
+};`,
+  },
+  {
+    name: "block-level function declarations stay in their block",
+    code: `export const h = () => {
+  "use client";
+  { function inner() {} }
+  return inner;
+};`,
+    names: ["inner"],
+  },
+  {
+    name: "destructured catch parameters bind inside the catch body",
+    code: `export const h = () => {
+  "use client";
+  try { run(); } catch ({ message }) { return message; }
+};`,
+    names: ["run"],
+  },
+  {
+    name: "catch parameters do not leak out of the clause",
+    code: `export const h = () => {
+  "use client";
+  try { run(); } catch (error) {}
+  return error;
+};`,
+    names: ["error", "run"],
+  },
+  {
+    name: "class expressions bind their own name",
+    code: `export const h = () => {
+  "use client";
+  return class Tree { static make() { return new Tree(); } };
+};`,
+  },
+  {
+    name: "class members are walked",
+    code: `export const h = () => {
+  "use client";
+  class Widget {
+    [computedKey] = defaultValue;
+    render() { return renderWidget(this); }
+  }
+  return new Widget();
+};`,
+    names: ["computedKey", "defaultValue", "renderWidget"],
+  },
+  {
+    name: "labels are not references",
+    code: `export const h = () => {
+  "use client";
+  outer: for (const item of items) { if (item) continue outer; }
+};`,
+    names: ["items"],
+  },
+  {
+    name: "using declarations bind like const",
+    code: `export const h = async () => {
+  "use client";
+  using resource = open();
+  await using stream = connect();
+  return [resource, stream];
+};`,
+    names: ["connect", "open"],
+  },
+  {
+    name: "enclosing locals are captured even when a top-level name matches",
+    code: `const value = 1;
+export function Component() {
+  const value = 2;
+  return () => {
+    "use client";
+    return value;
+  };
+}`,
+    captured: ["value"],
+  },
+  {
+    name: "property keys and member names are not references",
+    code: `export const h = () => {
+  "use client";
+  return { key: source.prop, [computed]: 1, shorthand, method() { return this.key; } };
+};`,
+    names: ["computed", "shorthand", "source"],
+  },
+  {
+    name: "parameter defaults reference outer names",
+    code: `export const h = ({ a = fallback, b: { c } }, [d] = list) => {
+  "use client";
+  return a + c + d;
+};`,
+    names: ["fallback", "list"],
+  },
+  {
+    name: "assignment targets are references",
+    code: `export const h = () => {
+  "use client";
+  ({ total = 0, nested: { count } } = state);
+  [first] = queue;
+};`,
+    names: ["count", "first", "queue", "state", "total"],
+  },
+  {
+    name: "JSX component names are references, intrinsic tags are not",
+    code: `export const h = () => {
+  "use client";
+  return <div onClick={handle} data-id="x"><Icon.Check /></div>;
+};`,
+    names: ["Icon", "handle"],
+  },
+  {
+    name: "arguments of an enclosing function is captured by arrows",
+    code: `export function outer() {
+  return () => {
+    "use client";
+    return arguments;
+  };
+}`,
+    captured: ["arguments"],
+  },
+  {
+    name: "function handlers own their arguments",
+    code: `export const h = function () {
+  "use client";
+  return arguments.length;
+};`,
+  },
+  {
+    name: "type positions are ignored",
+    code: `export const h = (event: MouseEvent): Result => {
+  "use client";
+  const typed: Shape = event as unknown as Shape;
+  return typed satisfies Shape;
+};`,
+  },
+  {
+    name: "named function expressions can recurse",
+    code: `export const h = function loop(n: number): number {
+  "use client";
+  return n && loop(n - 1);
+};`,
+  },
+];
+
+for (const testCase of cases) {
+  Deno.test(`scope: ${testCase.name}`, () => {
+    const { names, captured } = getHandlerFreeVariables(testCase.code);
+    assertEquals(names, testCase.names ?? []);
+    assertEquals(captured, testCase.captured ?? []);
+  });
+}
+
+Deno.test("scope: binding references skip shadowed names", () => {
+  const program = parse(`export const open = () => {
+  "use client";
+};
+function call() {
+  const open = () => 1;
+  return open();
+}
+export const value = open;
+`);
+  const handler = findUseClientFunction(program);
+  assertExists(handler, "test source should contain a handler");
+  const references = getBindingReferencesOutside(
+    analyzeScopes(program),
+    "open",
+    handler,
+  );
+  assert(
+    references.length === 1 && getNodeType(references[0].parent ?? {}) ===
+        "VariableDeclarator",
+    "only the module-level use of the handler binding should be returned",
+  );
+});
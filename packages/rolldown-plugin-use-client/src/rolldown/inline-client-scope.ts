@@ -0,0 +1,611 @@
+export type SwcSpan = { start?: number; end?: number; ctxt?: number };
+
+export type SwcNode = {
+  type?: string;
+  span?: SwcSpan;
+  start?: number;
+  end?: number;
+  [key: string]: unknown;
+};
+
+export type SwcProgram = SwcNode & { body?: SwcNode[] };
+
+export type BindingKind =
+  | "var"
+  | "let"
+  | "const"
+  | "using"
+  | "function"
+  | "class"
+  | "param"
+  | "catch"
+  | "import"
+  | "enum"
+  | "arguments";
+
+export type ScopeKind = "module" | "function" | "block" | "catch" | "class";
+
+export type Scope = {
+  node: SwcNode;
+  kind: ScopeKind;
+  parent: Scope | null;
+  bindings: Map<string, ScopeBinding>;
+};
+
+export type ScopeBinding = {
+  name: string;
+  kind: BindingKind;
+  scope: Scope;
+  /** Declaring identifier, or the function itself for implicit `arguments`. */
+  node: SwcNode;
+  /**
+   * `VariableDeclarator` or function parameter whose pattern declares the
+   * binding, for `var`, `let`, `const` and `param` bindings.
+   */
+  declarator?: SwcNode;
+};
+
+export type ScopeReference = {
+  name: string;
+  node: SwcNode;
+  parent: SwcNode | null;
+  scope: Scope;
+  /** `null` when the name is not declared anywhere in the module. */
+  binding: ScopeBinding | null;
+};
+
+export type ScopeAnalysis = {
+  module: Scope;
+  references: ScopeReference[];
+  /** Scope in which `node` itself appears. */
+  getScope(node: SwcNode): Scope | undefined;
+  resolve(name: string, scope: Scope): ScopeBinding | null;
+};
+
+export function isSwcNode(value: unknown): value is SwcNode {
+  return typeof value === "object" && value !== null;
+}
+
+export function getNodeType(node: SwcNode): string | undefined {
+  return typeof node.type === "string" ? node.type : undefined;
+}
+
+export function getNodeArray(value: unknown): SwcNode[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isSwcNode);
+}
+
+export function getIdentifierValue(
+  node: SwcNode | null | undefined,
+): string | null {
+  if (!node) return null;
+  const value = node.value;
+  return typeof value === "string" ? value : null;
+}
+
+export function collectDeclaredFromPattern(
+  pattern: unknown,
+  target: Set<string>,
+) {
+  if (!isSwcNode(pattern)) return;
+  const patternType = getNodeType(pattern);
+  if (!patternType) return;
+  switch (patternType) {
+    case "Parameter":
+      collectDeclaredFromPattern(pattern.pat, target);
+      return;
+    case "Identifier":
+      if (typeof pattern.value === "string") {
+        target.add(pattern.value);
+      }
+      return;
+    case "ObjectPattern":
+      for (const prop of getNodeArray(pattern.properties)) {
+        const propType = getNodeType(prop);
+        if (propType === "KeyValuePatternProperty") {
+          collectDeclaredFromPattern(prop.value, target);
+        } else if (propType === "AssignmentPatternProperty") {
+          collectDeclaredFromPattern(prop.key, target);
+        } else if (propType === "RestElement") {
+          collectDeclaredFromPattern(prop.argument, target);
+        }
+      }
+      return;
+    case "ArrayPattern":
+      for (const element of getNodeArray(pattern.elements)) {
+        const elementType = getNodeType(element);
+        if (elementType === "RestElement") {
+          collectDeclaredFromPattern(element.argument, target);
+        } else {
+          collectDeclaredFromPattern(element, target);
+        }
+      }
+      return;
+    case "RestElement":
+      collectDeclaredFromPattern(pattern.argument, target);
+      return;
+    case "AssignmentPattern":
+      collectDeclaredFromPattern(pattern.left, target);
+      return;
+    default:
+      return;
+  }
+}
+
+const TS_VALUE_WRAPPERS = new Set([
+  "TsAsExpression",
+  "TsTypeAssertion",
+  "TsNonNullExpression",
+  "TsSatisfiesExpression",
+  "TsInstantiation",
+]);
+
+function isTypeOnlyNode(node: SwcNode) {
+  const nodeType = getNodeType(node);
+  if (!nodeType) return false;
+  if (!nodeType.startsWith("Ts")) return false;
+  if (TS_VALUE_WRAPPERS.has(nodeType)) return false;
+  if (
+    nodeType === "TsEnumDeclaration" || nodeType === "TsConstEnumDeclaration"
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function isIntrinsicJsxName(name: string) {
+  return /^[a-z]/.test(name) || name.includes("-");
+}
+
+function isVarScope(scope: Scope) {
+  return scope.kind === "function" || scope.kind === "module";
+}
+
+const SKIPPED_KEYS = new Set(["span", "ctxt", "type", "start", "end", "loc"]);
+
+/**
+ * Builds lexical scopes for an SWC module and resolves every identifier
+ * reference to its binding. Module code is strict, so function declarations
+ * are block scoped, `var` hoists to the nearest function, and type-only
+ * syntax is ignored.
+ */
+export function analyzeScopes(program: SwcProgram): ScopeAnalysis {
+  const nodeScopes = new WeakMap<SwcNode, Scope>();
+  const references: ScopeReference[] = [];
+
+  const createScope = (
+    node: SwcNode,
+    kind: ScopeKind,
+    parent: Scope | null,
+  ): Scope => ({ node, kind, parent, bindings: new Map() });
+
+  const declare = (
+    identifier: unknown,
+    kind: BindingKind,
+    scope: Scope,
+  ) => {
+    if (!isSwcNode(identifier)) return;
+    const name = getIdentifierValue(identifier);
+    if (!name) return;
+    scope.bindings.set(name, { name, kind, scope, node: identifier });
+  };
+
+  const visitKey = (key: unknown, parent: SwcNode, scope: Scope) => {
+    if (isSwcNode(key) && getNodeType(key) === "Computed") {
+      visit(key, parent, scope);
+    }
+  };
+
+  const declarePattern = (
+    pattern: unknown,
+    kind: BindingKind,
+    target: Scope,
+    scope: Scope,
+  ): void => {
+    if (!isSwcNode(pattern)) return;
+    switch (getNodeType(pattern)) {
+      case "Parameter":
+        for (const decorator of getNodeArray(pattern.decorators)) {
+          visit(decorator, pattern, scope);
+        }
+        declarePattern(pattern.pat, kind, target, scope);
+        return;
+      case "TsParameterProperty":
+        declarePattern(pattern.param, kind, target, scope);
+        return;
+      case "Identifier":
+        nodeScopes.set(pattern, scope);
+        declare(pattern, kind, target);
+        return;
+      case "ObjectPattern":
+        for (const prop of getNodeArray(pattern.properties)) {
+          const propType = getNodeType(prop);
+          if (propType === "KeyValuePatternProperty") {
+            visitKey(prop.key, prop, scope);
+            declarePattern(prop.value, kind, target, scope);
+          } else if (propType === "AssignmentPatternProperty") {
+            declare(prop.key, kind, target);
+            visit(prop.value, prop, scope);
+          } else {
+            declarePattern(prop, kind, target, scope);
+          }
+        }
+        return;
+      case "ArrayPattern":
+        for (const element of getNodeArray(pattern.elements)) {
+          declarePattern(element, kind, target, scope);
+        }
+        return;
+      case "RestElement":
+        declarePattern(pattern.argument, kind, target, scope);
+        return;
+      case "AssignmentPattern":
+        declarePattern(pattern.left, kind, target, scope);
+        visit(pattern.right, pattern, scope);
+        return;
+      default:
+        return;
+    }
+  };
+
+  const declareWithDeclarator = (
+    declarator: SwcNode,
+    pattern: unknown,
+    kind: BindingKind,
+    target: Scope,
+    scope: Scope,
+  ) => {
+    declarePattern(pattern, kind, target, scope);
+    const names = new Set<string>();
+    collectDeclaredFromPattern(pattern, names);
+    for (const name of names) {
+      const binding = target.bindings.get(name);
+      if (binding) binding.declarator = declarator;
+    }
+  };
+
+  const visitFunction = (
+    fn: SwcNode,
+    params: unknown,
+    body: unknown,
+    scope: Scope,
+    options: { arrow?: boolean; selfName?: unknown } = {},
+  ) => {
+    const fnScope = createScope(fn, "function", scope);
+    if (!options.arrow) {
+      fnScope.bindings.set("arguments", {
+        name: "arguments",
+        kind: "arguments",
+        scope: fnScope,
+        node: fn,
+      });
+    }
+    if (options.selfName) {
+      declare(options.selfName, "function", fnScope);
+    }
+    for (const decorator of getNodeArray(fn.decorators)) {
+      visit(decorator, fn, scope);
+    }
+    const paramList = Array.isArray(params) ? params : [params];
+    for (const param of paramList) {
+      if (isSwcNode(param)) {
+        declareWithDeclarator(param, param, "param", fnScope, fnScope);
+      }
+    }
+    if (isSwcNode(body) && getNodeType(body) === "BlockStatement") {
+      nodeScopes.set(body, fnScope);
+      for (const stmt of getNodeArray(body.stmts)) {
+        visit(stmt, body, fnScope);
+      }
+    } else {
+      visit(body, fn, fnScope);
+    }
+  };
+
+  const visitClass = (node: SwcNode, scope: Scope) => {
+    for (const decorator of getNodeArray(node.decorators)) {
+      visit(decorator, node, scope);
+    }
+    const classScope = createScope(node, "class", scope);
+    declare(node.identifier, "class", classScope);
+    visit(node.superClass, node, classScope);
+    for (const member of getNodeArray(node.body)) {
+      visit(member, node, classScope);
+    }
+  };
+
+  const visitJsxName = (name: unknown, parent: SwcNode, scope: Scope) => {
+    if (!isSwcNode(name)) return;
+    const nameType = getNodeType(name);
+    if (nameType === "Identifier") {
+      const value = getIdentifierValue(name);
+      if (value && !isIntrinsicJsxName(value)) {
+        visit(name, parent, scope);
+      }
+    } else if (nameType === "JSXMemberExpression") {
+      visitJsxName(name.object, name, scope);
+    }
+  };
+
+  const visitChildren = (node: SwcNode, parent: SwcNode, scope: Scope) => {
+    for (const key of Object.keys(node)) {
+      if (SKIPPED_KEYS.has(key)) continue;
+      const value = node[key];
+      const children = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (!isSwcNode(child)) continue;
+        if (getNodeType(child)) {
+          visit(child, parent, scope);
+        } else {
+          // Untyped wrappers such as `{ spread, expression }` call arguments.
+          visitChildren(child, parent, scope);
+        }
+      }
+    }
+  };
+
+  const visit = (node: unknown, parent: SwcNode | null, scope: Scope) => {
+    if (!isSwcNode(node) || isTypeOnlyNode(node)) return;
+    nodeScopes.set(node, scope);
+    const nodeType = getNodeType(node);
+
+    switch (nodeType) {
+      case "Identifier": {
+        const name = getIdentifierValue(node);
+        if (name) {
+          references.push({ name, node, parent, scope, binding: null });
+        }
+        return;
+      }
+      case "ImportDeclaration":
+        for (const spec of getNodeArray(node.specifiers)) {
+          declare(spec.local, "import", scope);
+        }
+        return;
+      case "ExportNamedDeclaration":
+        if (node.source) return;
+        for (const spec of getNodeArray(node.specifiers)) {
+          visit(spec.orig, spec, scope);
+        }
+        return;
+      case "ExportAllDeclaration":
+        return;
+      case "ExportDefaultDeclaration": {
+        const decl = isSwcNode(node.decl) ? node.decl : null;
+        const declType = decl ? getNodeType(decl) : undefined;
+        if (decl && declType === "FunctionExpression") {
+          declare(decl.identifier, "function", scope);
+        } else if (decl && declType === "ClassExpression") {
+          declare(decl.identifier, "class", scope);
+        }
+        visit(decl, node, scope);
+        return;
+      }
+      case "FunctionDeclaration":
+        declare(node.identifier, "function", scope);
+        visitFunction(node, node.params, node.body, scope);
+        return;
+      case "FunctionExpression":
+        visitFunction(node, node.params, node.body, scope, {
+          selfName: node.identifier,
+        });
+        return;
+      case "ArrowFunctionExpression":
+        visitFunction(node, node.params, node.body, scope, { arrow: true });
+        return;
+      case "ClassDeclaration":
+        declare(node.identifier, "class", scope);
+        visitClass(node, scope);
+        return;
+      case "ClassExpression":
+        visitClass(node, scope);
+        return;
+      case "ClassMethod":
+      case "PrivateMethod": {
+        visitKey(node.key, node, scope);
+        const fn = isSwcNode(node.function) ? node.function : null;
+        if (fn) visitFunction(fn, fn.params, fn.body, scope);
+        return;
+      }
+      case "Constructor":
+        visitFunction(node, node.params, node.body, scope);
+        return;
+      case "MethodProperty":
+        visitKey(node.key, node, scope);
+        visitFunction(node, node.params, node.body, scope);
+        return;
+      case "GetterProperty":
+        visitKey(node.key, node, scope);
+        visitFunction(node, [], node.body, scope);
+        return;
+      case "SetterProperty":
+        visitKey(node.key, node, scope);
+        visitFunction(node, node.param, node.body, scope);
+        return;
+      case "ClassProperty":
+      case "PrivateProperty":
+        visitKey(node.key, node, scope);
+        for (const decorator of getNodeArray(node.decorators)) {
+          visit(decorator, node, scope);
+        }
+        visit(node.value, node, scope);
+        return;
+      case "StaticBlock": {
+        const blockScope = createScope(node, "function", scope);
+        visit(node.body, node, blockScope);
+        return;
+      }
+      case "KeyValueProperty":
+        visitKey(node.key, node, scope);
+        visit(node.value, node, scope);
+        return;
+      case "KeyValuePatternProperty":
+        visitKey(node.key, node, scope);
+        visit(node.value, node, scope);
+        return;
+      case "MemberExpression":
+      case "SuperPropExpression":
+        visit(node.object, node, scope);
+        visitKey(node.property, node, scope);
+        return;
+      case "VariableDeclaration": {
+        const kind = node.kind === "var"
+          ? "var"
+          : node.kind === "let"
+          ? "let"
+          : "const";
+        let target = scope;
+        while (kind === "var" && !isVarScope(target) && target.parent) {
+          target = target.parent;
+        }
+        for (const decl of getNodeArray(node.declarations)) {
+          declareWithDeclarator(decl, decl.id, kind, target, scope);
+          visit(decl.init, decl, scope);
+        }
+        return;
+      }
+      case "UsingDeclaration":
+        for (const decl of getNodeArray(node.decls)) {
+          declarePattern(decl.id, "using", scope, scope);
+          visit(decl.init, decl, scope);
+        }
+        return;
+      case "BlockStatement":
+      case "ForStatement":
+      case "ForInStatement":
+      case "ForOfStatement": {
+        const blockScope = createScope(node, "block", scope);
+        if (nodeType === "BlockStatement") {
+          for (const stmt of getNodeArray(node.stmts)) {
+            visit(stmt, node, blockScope);
+          }
+        } else {
+          visitChildren(node, node, blockScope);
+        }
+        return;
+      }
+      case "SwitchStatement": {
+        visit(node.discriminant, node, scope);
+        const casesScope = createScope(node, "block", scope);
+        for (const switchCase of getNodeArray(node.cases)) {
+          visit(switchCase, node, casesScope);
+        }
+        return;
+      }
+      case "CatchClause": {
+        const catchScope = createScope(node, "catch", scope);
+        declarePattern(node.param, "catch", catchScope, catchScope);
+        visit(node.body, node, catchScope);
+        return;
+      }
+      case "TsEnumDeclaration":
+      case "TsConstEnumDeclaration":
+        declare(node.id, "enum", scope);
+        for (const member of getNodeArray(node.members)) {
+          visit(member.init, member, scope);
+        }
+        return;
+      case "LabeledStatement":
+        visit(node.body, node, scope);
+        return;
+      case "BreakStatement":
+      case "ContinueStatement":
+      case "MetaProperty":
+      case "PrivateName":
+        return;
+      case "JSXOpeningElement":
+        visitJsxName(node.name, node, scope);
+        for (const attribute of getNodeArray(node.attributes)) {
+          visit(attribute, node, scope);
+        }
+        return;
+      case "JSXClosingElement":
+        return;
+      case "JSXAttribute":
+        visit(node.value, node, scope);
+        return;
+      default:
+        visitChildren(node, node, scope);
+    }
+  };
+
+  const moduleScope = createScope(program, "module", null);
+  nodeScopes.set(program, moduleScope);
+  for (const stmt of getNodeArray(program.body)) {
+    visit(stmt, program, moduleScope);
+  }
+
+  const resolve = (name: string, scope: Scope) => {
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const binding = current.bindings.get(name);
+      if (binding) return binding;
+    }
+    return null;
+  };
+  for (const reference of references) {
+    reference.binding = resolve(reference.name, reference.scope);
+  }
+
+  return {
+    module: moduleScope,
+    references,
+    getScope: (node) => nodeScopes.get(node),
+    resolve,
+  };
+}
+
+/** Whether the span of `node` lies inside the span of `container`. */
+export function isWithin(node: SwcNode, container: SwcNode) {
+  const start = node.span?.start;
+  const end = node.span?.end;
+  const containerStart = container.span?.start;
+  const containerEnd = container.span?.end;
+  if (
+    start === undefined || end === undefined ||
+    containerStart === undefined || containerEnd === undefined
+  ) {
+    return false;
+  }
+  return start >= containerStart && end <= containerEnd;
+}
+
+/**
+ * Names referenced inside `node` but declared outside of it. `names` are
+ * module-level bindings or undeclared globals; `captured` are bindings of an
+ * enclosing function or block, which cannot follow the code into another
+ * module.
+ */
+export function getFreeVariables(analysis: ScopeAnalysis, node: SwcNode) {
+  const names = new Set<string>();
+  const captured = new Set<string>();
+  for (const reference of analysis.references) {
+    if (!isWithin(reference.node, node)) continue;
+    const { binding } = reference;
+    if (!binding) {
+      names.add(reference.name);
+    } else if (isWithin(binding.node, node)) {
+      continue;
+    } else if (binding.scope === analysis.module) {
+      names.add(reference.name);
+    } else {
+      captured.add(reference.name);
+    }
+  }
+  return { names, captured };
+}
+
+/** References outside of `node` that resolve to the binding `name` has at `node`. */
+export function getBindingReferencesOutside(
+  analysis: ScopeAnalysis,
+  name: string,
+  node: SwcNode,
+): ScopeReference[] {
+  const scope = analysis.getScope(node);
+  if (!scope) return [];
+  const binding = analysis.resolve(name, scope);
+  return analysis.references.filter((reference) =>
+    reference.name === name &&
+    reference.binding === binding &&
+    !isWithin(reference.node, node)
+  );
+}
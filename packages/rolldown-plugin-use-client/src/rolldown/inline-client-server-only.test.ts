@@ -0,0 +1,58 @@
+import { assert, assertEquals } from "std/assert";
+import {
+  createServerOnlyMatcher,
+  findServerOnlyChain,
+} from "./inline-client-server-only.ts";
+
+Deno.test("server-only matcher: builtins, packages, paths and globs", () => {
+  const isServerOnly = createServerOnlyMatcher(
+    ["pg", "@acme/db", "./src/secrets.ts", "src/server/**"],
+    "/app",
+  );
+  for (
+    const id of [
+      "node:fs",
+      "fs/promises",
+      "server-only",
+      "/app/node_modules/server-only/index.js",
+      "pg",
+      "/app/node_modules/pg/lib/index.js",
+      "@acme/db/client",
+      "/app/src/secrets.ts",
+      "/app/src/server/db/pool.ts",
+    ]
+  ) {
+    assert(isServerOnly(id), `${id} should be server-only`);
+  }
+  for (
+    const id of [
+      "/app/node_modules/pg-format/index.js",
+      "/app/src/secrets.tsx",
+      "/app/src/client/server/view.ts",
+      "\0inline-client:/app/src/page.0a1b2c3d4e5f.client.tsx",
+    ]
+  ) {
+    assert(!isServerOnly(id), `${id} should be allowed`);
+  }
+});
+
+Deno.test("server-only chain is the shortest import path", () => {
+  const graph: Record<string, string[]> = {
+    entry: ["a", "b"],
+    a: ["c"],
+    b: ["node:fs"],
+    c: ["node:fs"],
+  };
+  assertEquals(
+    findServerOnlyChain(
+      "entry",
+      (id) => graph[id] ?? [],
+      (id) => id.startsWith("node:"),
+    ),
+    ["entry", "b", "node:fs"],
+  );
+  assertEquals(
+    findServerOnlyChain("a", () => [], (id) => id === "entry"),
+    null,
+  );
+});
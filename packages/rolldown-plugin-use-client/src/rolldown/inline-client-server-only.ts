@@ -0,0 +1,101 @@
+import { builtinModules } from "node:module";
+import path from "node:path";
+
+/** Package a module imports to mark itself as server-only. */
+export const SERVER_ONLY_MARKER = "server-only";
+
+const GLOB_CHARACTERS = /[*?]/;
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (glob.startsWith("**/", index)) {
+      source += "(?:.*/)?";
+      index += 2;
+    } else if (glob.startsWith("**", index)) {
+      source += ".*";
+      index += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function isBareSpecifier(pattern: string) {
+  return !pattern.startsWith(".") && !path.isAbsolute(pattern) &&
+    !GLOB_CHARACTERS.test(pattern);
+}
+
+/**
+ * Returns whether a module id is server-only. Bare specifiers match the
+ * package, whether it is bundled from `node_modules` or left external; paths
+ * and globs are resolved against `cwd` and match the module's file. Node
+ * builtins and the {@link SERVER_ONLY_MARKER} package always match.
+ */
+export function createServerOnlyMatcher(
+  patterns: string[],
+  cwd: string,
+): (id: string) => boolean {
+  const packages = [SERVER_ONLY_MARKER];
+  const files: RegExp[] = [];
+  for (const pattern of patterns) {
+    if (pattern.startsWith("node:")) continue;
+    if (isBareSpecifier(pattern)) {
+      packages.push(pattern);
+      continue;
+    }
+    const absolute = path.isAbsolute(pattern) || pattern.startsWith("**")
+      ? pattern
+      : path.join(cwd, pattern);
+    files.push(globToRegExp(absolute.replaceAll("\\", "/")));
+  }
+  return (rawId) => {
+    const id = rawId.replaceAll("\\", "/");
+    if (id.startsWith("node:") || builtinModules.includes(id)) return true;
+    if (
+      packages.some((name) =>
+        id === name || id.startsWith(`${name}/`) ||
+        id.includes(`/node_modules/${name}/`)
+      )
+    ) {
+      return true;
+    }
+    return files.some((pattern) => pattern.test(id));
+  };
+}
+
+/**
+ * Shortest import chain from `entry` to a module `isServerOnly` accepts, both
+ * ends included, or `null` when the graph has none.
+ */
+export function findServerOnlyChain(
+  entry: string,
+  getImports: (id: string) => string[],
+  isServerOnly: (id: string) => boolean,
+): string[] | null {
+  const parents = new Map<string, string | null>([[entry, null]]);
+  const queue = [entry];
+  for (let index = 0; index < queue.length; index += 1) {
+    const id = queue[index];
+    if (isServerOnly(id)) {
+      const chain: string[] = [];
+      for (let step: string | null = id; step !== null;) {
+        chain.unshift(step);
+        step = parents.get(step) ?? null;
+      }
+      return chain;
+    }
+    for (const imported of getImports(id)) {
+      if (parents.has(imported)) continue;
+      parents.set(imported, id);
+      queue.push(imported);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,57 @@
+import { assertEquals } from "std/assert";
+import { parseSync } from "@swc/core";
+import {
+  createSharedStateSource,
+  createSharedWriteTarget,
+  findSharedItems,
+  findSharedWrites,
+} from "./inline-client-shared.ts";
+import {
+  analyzeScopes,
+  getNodeArray,
+  type SwcProgram,
+} from "./inline-client-scope.ts";
+
+Deno.test("shared items appear in more than one group", () => {
+  assertEquals(
+    findSharedItems([["a", "b", "b"], ["c"], ["b", "c", "d"]]),
+    ["b", "c"],
+  );
+});
+
+Deno.test("shared writes skip owners, shadowed names and reads", () => {
+  const program = parseSync(
+    `let tab = "a";
+let count = 0;
+function reset() { tab = "a"; }
+export const a = () => {
+  tab = "b";
+  count++;
+  ({ tab } = next);
+  [count] = pair;
+  console.log(tab);
+  { let tab; tab = "c"; }
+};`,
+    { syntax: "typescript", target: "es2022" },
+  ) as unknown as SwcProgram;
+  const analysis = analyzeScopes(program);
+  const reset = getNodeArray(program.body)[2];
+  const writes = findSharedWrites(analysis, new Set(["tab", "count"]), [
+    reset,
+  ]);
+  assertEquals(writes.map(createSharedWriteTarget), [
+    "__useClientState.tab",
+    "__useClientState.count",
+    "tab: __useClientState.tab",
+    "__useClientState.count",
+  ]);
+});
+
+Deno.test("shared state accessors read and write the module bindings", () => {
+  const source = createSharedStateSource(["tab"]).replace("export ", "");
+  const state = new Function(`let tab = "a";
+${source}
+return [__useClientState, () => tab];`)();
+  state[0].tab = "b";
+  assertEquals([state[0].tab, state[1]()], ["b", "b"]);
+});
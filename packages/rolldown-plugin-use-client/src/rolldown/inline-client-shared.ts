@@ -0,0 +1,59 @@
+import { isWriteTarget } from "./inline-client-captures.ts";
+import {
+  getNodeType,
+  isWithin,
+  type ScopeAnalysis,
+  type ScopeReference,
+  type SwcNode,
+} from "./inline-client-scope.ts";
+
+/** Export of a file's shared client module that other modules assign through. */
+export const SHARED_STATE_BINDING = "__useClientState";
+
+/** Items that more than one group contains, in order of first appearance. */
+export function findSharedItems<T>(groups: Iterable<T>[]): T[] {
+  const counts = new Map<T, number>();
+  for (const group of groups) {
+    for (const item of new Set(group)) {
+      counts.set(item, (counts.get(item) ?? 0) + 1);
+    }
+  }
+  return [...counts].filter(([, count]) => count > 1).map(([item]) => item);
+}
+
+/**
+ * Assignments to the module-level bindings `names` outside of `owners`, the
+ * declarations moved into the shared module. Imported bindings are read-only,
+ * so these writes have to go through {@link SHARED_STATE_BINDING}.
+ */
+export function findSharedWrites(
+  analysis: ScopeAnalysis,
+  names: Set<string>,
+  owners: SwcNode[],
+): ScopeReference[] {
+  return analysis.references.filter((reference) =>
+    reference.binding?.scope === analysis.module &&
+    names.has(reference.name) &&
+    reference.parent !== null &&
+    isWriteTarget(reference.node, reference.parent) &&
+    !owners.some((owner) => isWithin(reference.node, owner))
+  );
+}
+
+/** Replacement for a write reference; shorthand pattern properties need a key. */
+export function createSharedWriteTarget(reference: ScopeReference): string {
+  const target = `${SHARED_STATE_BINDING}.${reference.name}`;
+  return reference.parent !== null &&
+      getNodeType(reference.parent) === "AssignmentPatternProperty"
+    ? `${reference.name}: ${target}`
+    : target;
+}
+
+/** Accessors for `names`, exported by the shared module. */
+export function createSharedStateSource(names: string[]): string {
+  const accessors = names.map((name) =>
+    `  get ${name}() {\n    return ${name};\n  },\n` +
+    `  set ${name}(__value) {\n    ${name} = __value;\n  },\n`
+  );
+  return `export const ${SHARED_STATE_BINDING} = {\n${accessors.join("")}};\n`;
+}
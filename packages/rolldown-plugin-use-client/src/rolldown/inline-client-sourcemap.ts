@@ -0,0 +1,166 @@
+export type InlineClientSourceMap = {
+  version: 3;
+  sources: string[];
+  sourcesContent: string[];
+  names: string[];
+  mappings: string;
+};
+
+export type MappedCodeBuilder = {
+  /** Copies `source[start, end)` into the output, keeping its original positions. */
+  appendSource(start: number, end: number): void;
+  /** Appends generated text, optionally attributed to an original index. */
+  appendGenerated(text: string, sourceIndex?: number): void;
+  toString(): string;
+  toMap(): InlineClientSourceMap;
+};
+
+type Segment =
+  | [generatedColumn: number]
+  | [generatedColumn: number, sourceLine: number, sourceColumn: number];
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function encodeVlq(value: number) {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = "";
+  do {
+    let digit = vlq & 0b11111;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 0b100000;
+    encoded += BASE64[digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+function encodeMappings(lines: Segment[][]) {
+  let previousSourceLine = 0;
+  let previousSourceColumn = 0;
+  return lines.map((segments) => {
+    let previousGeneratedColumn = 0;
+    return segments.map((segment) => {
+      const generatedColumn = segment[0];
+      let encoded = encodeVlq(generatedColumn - previousGeneratedColumn);
+      previousGeneratedColumn = generatedColumn;
+      if (segment.length === 1) return encoded;
+      const [, sourceLine, sourceColumn] = segment;
+      encoded += encodeVlq(0) +
+        encodeVlq(sourceLine - previousSourceLine) +
+        encodeVlq(sourceColumn - previousSourceColumn);
+      previousSourceLine = sourceLine;
+      previousSourceColumn = sourceColumn;
+      return encoded;
+    }).join(",");
+  }).join(";");
+}
+
+function createLineLookup(code: string) {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i += 1) {
+    if (code[i] === "\n") lineStarts.push(i + 1);
+  }
+  return (index: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= index) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return { line: lo, column: index - lineStarts[lo] };
+  };
+}
+
+function isWordChar(char: string | undefined) {
+  return char !== undefined && /[\p{L}\p{N}_$]/u.test(char);
+}
+
+function isTokenBoundary(code: string, index: number) {
+  const char = code[index];
+  if (char === undefined || /\s/u.test(char)) return false;
+  const prev = code[index - 1];
+  if (prev === undefined || /\s/u.test(prev)) return true;
+  return !isWordChar(char) || !isWordChar(prev);
+}
+
+/**
+ * Builds code from slices of `source` plus generated text and records a
+ * token-level source map. Indices are UTF-16 string indices, so callers must
+ * convert SWC byte spans (see `createByteOffsetLookup`) before slicing.
+ */
+export function createMappedCodeBuilder(
+  source: string,
+  sourceId: string,
+): MappedCodeBuilder {
+  const lookup = createLineLookup(source);
+  const lines: Segment[][] = [[]];
+  let output = "";
+  let column = 0;
+
+  const addSegment = (segment: Segment) => {
+    const segments = lines[lines.length - 1];
+    const last = segments[segments.length - 1];
+    if (last && last[0] === column) {
+      segments[segments.length - 1] = segment;
+      return;
+    }
+    segments.push(segment);
+  };
+
+  const addSourceSegment = (sourceIndex: number) => {
+    const { line, column: sourceColumn } = lookup(sourceIndex);
+    addSegment([column, line, sourceColumn]);
+  };
+
+  const advance = (text: string) => {
+    for (const char of text) {
+      if (char === "\n") {
+        lines.push([]);
+        column = 0;
+      } else {
+        column += char.length;
+      }
+    }
+    output += text;
+  };
+
+  return {
+    appendSource(start, end) {
+      if (end <= start) return;
+      let chunkStart = start;
+      for (let i = start; i < end; i += 1) {
+        const atLineStart = i === start || source[i - 1] === "\n";
+        if (!atLineStart && !isTokenBoundary(source, i)) continue;
+        advance(source.slice(chunkStart, i));
+        chunkStart = i;
+        addSourceSegment(i);
+      }
+      advance(source.slice(chunkStart, end));
+    },
+    appendGenerated(text, sourceIndex) {
+      if (text.length === 0) return;
+      if (sourceIndex !== undefined) {
+        addSourceSegment(sourceIndex);
+      } else if (lines[lines.length - 1].length > 0) {
+        addSegment([column]);
+      }
+      advance(text);
+    },
+    toString() {
+      return output;
+    },
+    toMap() {
+      return {
+        version: 3,
+        sources: [sourceId],
+        sourcesContent: [source],
+        names: [],
+        mappings: encodeMappings(lines),
+      };
+    },
+  };
+}
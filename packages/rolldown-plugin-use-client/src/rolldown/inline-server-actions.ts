@@ -0,0 +1,77 @@
+import { createHash } from "node:crypto";
+import type { PreRenderedChunk } from "rolldown";
+import type { InlineClientHandlerInfo } from "./inline-client-manifest.ts";
+
+export const DEFAULT_ACTIONS_MANIFEST_FILE_NAME = "use-server-manifest.json";
+export const DEFAULT_ACTIONS_ENDPOINT = "/_actions";
+
+export type InlineServerActionsOptions = {
+  /** Asset name of the action manifest. Defaults to `"use-server-manifest.json"`. */
+  fileName?: string;
+  /** URL prefix of the action references. Defaults to `"/_actions"`. */
+  endpoint?: string;
+  /**
+   * File name pattern for emitted action chunks. Defaults to
+   * `"actions/[name].[hash].server.js"`.
+   */
+  chunkFileNames?: string | ((chunkInfo: PreRenderedChunk) => string);
+  /**
+   * Directory that action ids hash source paths relative to. Defaults to the
+   * Rolldown `cwd`, so ids do not depend on where the build is started.
+   */
+  root?: string;
+};
+
+export type InlineServerActionManifestEntry = InlineClientHandlerInfo & {
+  /** Emitted server chunk file name. */
+  file: string;
+  /** Export of `file` that holds the action. */
+  exportName: string;
+};
+
+export type InlineServerActionManifest = {
+  actions: Record<string, InlineServerActionManifestEntry>;
+};
+
+export type InlineServerActionRecord =
+  & Omit<InlineServerActionManifestEntry, "file">
+  & { id: string; refId: string };
+
+/**
+ * Derives an action id from where the action is declared rather than from its
+ * body, so editing an action keeps forms that post to it working.
+ * `ordinal` counts earlier actions with the same binding in the file.
+ */
+export function createActionId(
+  relativeSource: string,
+  binding: string | null,
+  ordinal: number,
+): string {
+  return createHash("sha1")
+    .update(`${relativeSource}\0${binding ?? ""}\0${ordinal}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/** Expression that replaces an extracted action at its call site. */
+export function createActionReferenceExpression(
+  id: string,
+  endpoint: string,
+): string {
+  const base = endpoint.endsWith("/") ? endpoint : `${endpoint}/`;
+  return `({ id: ${JSON.stringify(id)}, url: ${
+    JSON.stringify(`${base}${id}`)
+  } })`;
+}
+
+export function createServerActionManifest(
+  records: Iterable<InlineServerActionRecord>,
+  getFileName: (refId: string) => string,
+): InlineServerActionManifest {
+  const sorted = [...records].sort((a, b) => a.id < b.id ? -1 : 1);
+  const actions: Record<string, InlineServerActionManifestEntry> = {};
+  for (const { id, refId, ...record } of sorted) {
+    actions[id] = { ...record, file: getFileName(refId) };
+  }
+  return { actions };
+}
@@ -0,0 +1,25 @@
+/** Binding the extracted function is assigned to inside a worker entry. */
+export const WORKER_HANDLER_BINDING = "__useWorkerHandler";
+
+/**
+ * Message protocol appended to every worker entry. Each `{ id, args }` message
+ * calls the handler with `args` and answers with `{ id, result }`, or with
+ * `{ id, error: { name, message } }` when the handler throws or rejects.
+ */
+export function createWorkerProtocolSource(): string {
+  return `self.addEventListener("message", async (event) => {
+  const { id, args } = event.data ?? {};
+  try {
+    const result = await ${WORKER_HANDLER_BINDING}(...(args ?? []));
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({
+      id,
+      error: error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: "Error", message: String(error) },
+    });
+  }
+});
+`;
+}
@@ -7,10 +7,30 @@ import type { Plugin } from "rolldown";
 import inlineClientHandlers, {
   type InlineClientPluginOptions,
 } from "./rolldown/inline-client-rolldown.ts";
+import type {
+  InlineClientManifest,
+  InlineClientManifestEntry,
+} from "./rolldown/inline-client-manifest.ts";
+import type {
+  InlineServerActionManifest,
+  InlineServerActionManifestEntry,
+} from "./rolldown/inline-server-actions.ts";
 
 /** Options for configuring inline client handler extraction. */
 export type UseClientPluginOptions = InlineClientPluginOptions;
 
+/** Handler manifest emitted by the `manifest` option. */
+export type UseClientManifest = InlineClientManifest;
+
+/** A single extracted handler in the handler manifest. */
+export type UseClientManifestEntry = InlineClientManifestEntry;
+
+/** Action manifest emitted for `"use server"` functions, keyed by action id. */
+export type UseServerManifest = InlineServerActionManifest;
+
+/** A single hoisted action in the action manifest. */
+export type UseServerManifestEntry = InlineServerActionManifestEntry;
+
 /** Returns the Rolldown plugin that extracts inline `"use client"` handlers. */
 export default function useClient(
   options: UseClientPluginOptions = {},